@@ -7,6 +7,12 @@ import Footer from './components/Footer';
 import Sidebar from './components/Sidebar';
 import LandingPage from './components/LandingPage';
 import CookieConsent from './components/CookieConsent';
+import UnlockScreen from './components/UnlockScreen';
+import { RoomInvite, consumeInviteFromLocation, isInviteExpired } from './utils/inviteLink';
+import { getPanicShortcut, shortcutFromEvent } from './utils/securitySettings';
+
+// Read once at startup; the fragment is stripped from the address bar right away
+const initialInvite = consumeInviteFromLocation();
 
 const UpdateBanner: React.FC = () => {
   const { updateAvailable } = useChat();
@@ -28,9 +34,27 @@ const UpdateBanner: React.FC = () => {
   );
 };
 
-const AppContent: React.FC = () => {
-  const { roomId, activeChatTarget, updateRequired, chatEnded, resetChatEnded } = useChat();
+const AppContent: React.FC<{ invite: RoomInvite | null }> = ({ invite }) => {
+  const { roomId, activeChatTarget, updateRequired, chatEnded, resetChatEnded, isLocked, isWiped, panic } = useChat();
   const [isSidebarOpen, setIsSidebarOpen] = React.useState(false);
+  // Invite links join automatically once; afterwards the form is only pre-filled
+  const [autoJoinPending, setAutoJoinPending] = React.useState(!!invite && !isInviteExpired(invite));
+
+  // Panic shortcut works everywhere in the app, including inside inputs
+  React.useEffect(() => {
+    const handleKeyDown = (e: KeyboardEvent) => {
+      if (shortcutFromEvent(e) === getPanicShortcut()) {
+        e.preventDefault();
+        panic();
+      }
+    };
+    window.addEventListener('keydown', handleKeyDown);
+    return () => window.removeEventListener('keydown', handleKeyDown);
+  }, [panic]);
+
+  if (isWiped) {
+    return <div className="h-screen bg-black" />;
+  }
 
   // 404 Check
   if (window.location.pathname !== '/') {
@@ -43,6 +67,10 @@ const AppContent: React.FC = () => {
     );
   }
 
+  if (isLocked) {
+    return <UnlockScreen />;
+  }
+
   // Chat Ended Check
   if (chatEnded) {
     return (
@@ -97,7 +125,11 @@ const AppContent: React.FC = () => {
         <main className="flex-grow flex flex-col relative w-full">
           {!roomId ? (
             <div className="flex-grow flex items-center justify-center p-4 bg-[#050505]">
-              <CreateOrJoinRoom />
+              <CreateOrJoinRoom
+                invite={invite}
+                autoJoin={autoJoinPending}
+                onAutoJoin={() => setAutoJoinPending(false)}
+              />
             </div>
           ) : (
             <ChatRoom key={`${roomId}-${activeChatTarget || 'ROOM'}`} />
@@ -113,7 +145,7 @@ const AppContent: React.FC = () => {
 import NexusStatus from './components/NexusStatus';
 
 const App: React.FC = () => {
-  const [showLanding, setShowLanding] = React.useState(true);
+  const [showLanding, setShowLanding] = React.useState(!initialInvite);
   const [showNexusStatus, setShowNexusStatus] = React.useState(false);
 
   if (showNexusStatus) {
@@ -138,7 +170,7 @@ const App: React.FC = () => {
 
   return (
     <ChatProvider>
-      <AppContent />
+      <AppContent invite={initialInvite} />
       <CookieConsent />
     </ChatProvider>
   );
@@ -1,24 +1,295 @@
 import React, { useState, useEffect, useRef } from 'react';
+import QRCode from 'qrcode';
 import { useChat } from '../contexts/ChatContext';
-import { DecryptedMessage, SystemMessageType } from '../types';
+import { DecryptedMessage, MessageStatus, SystemMessageType } from '../types';
+import { formatSafetyNumber, parseSafetyNumberInput, toQrPayload } from '../utils/safetyNumber';
+import { getMessageEditWindow, isMetadataStrippingEnabled } from '../utils/securitySettings';
+import { MarkdownInline, parseMarkdown } from '../utils/markdown';
+import { FileTransferManager } from '../utils/FileTransferManager';
+import { INVITE_EXPIRY_OPTIONS, MESSAGE_EXPIRY_TIMER_OPTIONS, REACTION_EMOJIS } from '../constants';
 
-const SafetyNumberDisplay: React.FC<{ targetSocketId: string }> = ({ targetSocketId }) => {
-  const { getSafetyNumber } = useChat();
+// Disappearing messages timer of the open conversation; changes are announced to the other side
+const ExpiryTimerSelect: React.FC = () => {
+  const { expiryTimer, setExpiryTimer } = useChat();
+
+  return (
+    <select
+      value={expiryTimer}
+      onChange={(e) => setExpiryTimer(Number(e.target.value))}
+      className={`bg-[#1A1A1A] border text-xs rounded-full px-2 py-1.5 outline-none ${expiryTimer > 0 ? 'border-[#00FF41]/40 text-[#00FF41]' : 'border-[#333] text-[#86868b]'}`}
+      title="Disappearing messages"
+    >
+      {MESSAGE_EXPIRY_TIMER_OPTIONS.map(option => (
+        <option key={option.value} value={option.value}>⏱ {option.label}</option>
+      ))}
+    </select>
+  );
+};
+
+const STATUS_TICKS: Record<MessageStatus, { icon: string, label: string, className: string }> = {
+  sending: { icon: '○', label: 'Sending', className: 'text-[#444]' },
+  relayed: { icon: '✓', label: 'Relayed by the server', className: 'text-[#86868b]' },
+  delivered: { icon: '✓✓', label: 'Delivered', className: 'text-[#86868b]' },
+  read: { icon: '✓✓', label: 'Read', className: 'text-[#00FF41]' },
+  failed: { icon: '!', label: 'Not delivered', className: 'text-red-500 font-bold' },
+};
+
+const InviteLinkButton: React.FC = () => {
+  const { createInviteLink, isRoomProtected } = useChat();
+  const [ttlMs, setTtlMs] = useState(INVITE_EXPIRY_OPTIONS[0].value);
+  const [copied, setCopied] = useState(false);
+
+  const copyInviteLink = async () => {
+    const link = createInviteLink(ttlMs);
+    if (!link) return;
+    try {
+      await navigator.clipboard.writeText(link);
+      setCopied(true);
+      setTimeout(() => setCopied(false), 2000);
+    } catch (e) {
+      console.error("Failed to copy invite link:", e);
+    }
+  };
+
+  return (
+    <div className="flex items-center space-x-2">
+      <select
+        value={ttlMs}
+        onChange={(e) => setTtlMs(Number(e.target.value))}
+        className="bg-[#1A1A1A] border border-[#333] text-[#86868b] text-xs rounded-full px-2 py-1.5 outline-none"
+        title="Invite link expiry"
+      >
+        {INVITE_EXPIRY_OPTIONS.map(option => (
+          <option key={option.value} value={option.value}>{option.label}</option>
+        ))}
+      </select>
+      <button
+        onClick={copyInviteLink}
+        className="px-4 py-1.5 bg-[#1A1A1A] hover:bg-[#333] text-white text-xs font-medium rounded-full transition-colors border border-[#333]"
+        title={isRoomProtected ? 'The link contains the room passphrase' : 'Anyone with the link can join this open room'}
+      >
+        {copied ? 'Copied' : 'Copy Invite Link'}
+      </button>
+    </div>
+  );
+};
+
+const SafetyNumberPanel: React.FC<{ targetSocketId: string, username: string, onClose: () => void }> = ({ targetSocketId, username, onClose }) => {
+  const { getSafetyNumber, verifiedUsers, setPeerVerified, activeUsers, ownKeyPair } = useChat();
   const [safetyNumber, setSafetyNumber] = useState<string | null>(null);
+  const [qrDataUrl, setQrDataUrl] = useState<string | null>(null);
+  const [pastedCode, setPastedCode] = useState('');
+  const [checkResult, setCheckResult] = useState<'match' | 'mismatch' | null>(null);
+  const [isScanning, setIsScanning] = useState(false);
+  const videoRef = useRef<HTMLVideoElement>(null);
 
+  const isVerified = verifiedUsers.includes(username);
+  const canScan = 'BarcodeDetector' in window && !!navigator.mediaDevices?.getUserMedia;
+  const peer = activeUsers.find(u => u.socketId === targetSocketId);
+  const peerIdentity = peer ? JSON.stringify([peer.publicKey, peer.signingKey]) : null;
+
+  // Keyed on both identities rather than on getSafetyNumber, which changes every render: the fingerprint is slow to derive
+  useEffect(() => {
+    let cancelled = false;
+    getSafetyNumber(targetSocketId).then(number => {
+      if (cancelled) return;
+      setSafetyNumber(number);
+      if (number) {
+        QRCode.toDataURL(toQrPayload(number), { margin: 1, width: 176 })
+          .then(url => { if (!cancelled) setQrDataUrl(url); })
+          .catch(err => console.error("QR code generation failed:", err));
+      }
+    });
+    return () => { cancelled = true; };
+  }, [targetSocketId, peerIdentity, ownKeyPair]);
+
+  const checkCode = (input: string) => {
+    const scanned = parseSafetyNumberInput(input);
+    if (scanned && safetyNumber && scanned === safetyNumber) {
+      setCheckResult('match');
+      if (!isVerified) setPeerVerified(username, true);
+    } else {
+      setCheckResult('mismatch');
+    }
+  };
+
+  // Camera scanning via the Barcode Detection API, where the browser has it
   useEffect(() => {
-    getSafetyNumber(targetSocketId).then(setSafetyNumber);
-  }, [targetSocketId, getSafetyNumber]);
+    if (!isScanning) return;
+    let stream: MediaStream | null = null;
+    let timer: number | undefined;
+    let cancelled = false;
+    const detector = new (window as any).BarcodeDetector({ formats: ['qr_code'] });
 
-  if (!safetyNumber) return null;
+    navigator.mediaDevices.getUserMedia({ video: { facingMode: 'environment' } })
+      .then(mediaStream => {
+        stream = mediaStream;
+        if (cancelled || !videoRef.current) return;
+        videoRef.current.srcObject = mediaStream;
+        videoRef.current.play();
+        timer = window.setInterval(async () => {
+          if (!videoRef.current) return;
+          const codes = await detector.detect(videoRef.current);
+          if (codes.length > 0) {
+            setIsScanning(false);
+            checkCode(codes[0].rawValue);
+          }
+        }, 500);
+      })
+      .catch(err => {
+        console.error("Camera access failed:", err);
+        setIsScanning(false);
+      });
+
+    return () => {
+      cancelled = true;
+      window.clearInterval(timer);
+      stream?.getTracks().forEach(track => track.stop());
+    };
+  }, [isScanning]);
 
   return (
-    <span className="text-gray-500 font-mono mt-1 flex items-center" title="Verify this number with your contact to ensure security">
-      <span className="mr-1">🔒</span> Safety Number: {safetyNumber}
-    </span>
+    <div className="bg-[#0A0A0A] p-4 border-b border-[#1A1A1A]">
+      <div className="flex justify-between items-start mb-3">
+        <div>
+          <p className="text-sm font-bold text-white">Verify {username}</p>
+          <p className="text-[10px] text-[#86868b]">Compare these numbers in person or over a trusted channel, or scan each other's code.</p>
+        </div>
+        <button onClick={onClose} className="text-[#86868b] hover:text-white text-xs">Close</button>
+      </div>
+
+      {!safetyNumber ? (
+        <p className="text-xs text-[#444] font-mono">Computing safety number...</p>
+      ) : (
+        <div className="flex flex-col md:flex-row md:space-x-6 space-y-3 md:space-y-0">
+          <div className="grid grid-cols-4 gap-x-3 gap-y-1 font-mono text-sm text-[#F5F5F7] self-start">
+            {formatSafetyNumber(safetyNumber).map((group, i) => <span key={i}>{group}</span>)}
+          </div>
+          {qrDataUrl && <img src={qrDataUrl} alt="Safety number QR code" className="w-44 h-44 rounded-lg bg-white self-start" />}
+          <div className="flex flex-col space-y-2 flex-grow">
+            {canScan && (
+              <button
+                onClick={() => { setCheckResult(null); setIsScanning(!isScanning); }}
+                className="bg-[#1A1A1A] hover:bg-[#333] text-white text-xs font-medium px-3 py-1.5 rounded-full border border-[#333] transition-colors"
+              >
+                {isScanning ? 'Stop Camera' : 'Scan Their Code'}
+              </button>
+            )}
+            {isScanning && <video ref={videoRef} className="w-44 h-44 object-cover rounded-lg" muted playsInline />}
+            <form
+              onSubmit={(e) => { e.preventDefault(); checkCode(pastedCode); }}
+              className="flex space-x-2"
+            >
+              <input
+                type="text"
+                value={pastedCode}
+                onChange={(e) => { setPastedCode(e.target.value); setCheckResult(null); }}
+                placeholder="Or paste their number"
+                className="flex-grow px-3 py-1.5 bg-[#1A1A1A] border border-[#333] rounded-full text-white text-xs placeholder-[#555] focus:outline-none focus:border-white"
+              />
+              <button type="submit" disabled={!pastedCode.trim()} className="bg-white text-black text-xs font-bold px-3 py-1.5 rounded-full disabled:opacity-50">
+                Check
+              </button>
+            </form>
+            {checkResult === 'match' && <p className="text-xs text-[#00FF41]">✓ Numbers match. {username} is verified.</p>}
+            {checkResult === 'mismatch' && <p className="text-xs text-red-500">⚠️ Numbers do not match. Do not mark this contact as verified.</p>}
+            <button
+              onClick={() => setPeerVerified(username, !isVerified)}
+              className={`text-xs font-bold px-3 py-1.5 rounded-full transition-colors ${isVerified ? 'bg-[#333] hover:bg-[#444] text-white' : 'bg-[#00FF41] hover:bg-[#00CC33] text-black'}`}
+            >
+              {isVerified ? 'Remove Verification' : 'Mark as Verified'}
+            </button>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+};
+
+const CodeBlock: React.FC<{ text: string, language?: string }> = ({ text, language }) => {
+  const [copied, setCopied] = useState(false);
+
+  const copyCode = async () => {
+    try {
+      await navigator.clipboard.writeText(text);
+      setCopied(true);
+      setTimeout(() => setCopied(false), 2000);
+    } catch (e) {
+      console.error("Failed to copy code:", e);
+    }
+  };
+
+  return (
+    <div className="my-1 rounded-lg bg-black/20 border border-black/10 overflow-hidden">
+      <div className="flex justify-between items-center px-3 py-1 text-[10px] uppercase tracking-wider opacity-60">
+        <span>{language || 'code'}</span>
+        <button type="button" onClick={copyCode} className="hover:opacity-100">{copied ? 'Copied' : 'Copy'}</button>
+      </div>
+      <pre className="px-3 pb-2 text-xs font-mono overflow-x-auto whitespace-pre"><code>{text}</code></pre>
+    </div>
+  );
+};
+
+// Links leave the encrypted chat, so the full address is shown before anything opens
+const confirmLink = (e: React.MouseEvent<HTMLAnchorElement>, href: string) => {
+  if (!window.confirm(`Open this link in a new tab?\n\n${href}`)) e.preventDefault();
+};
+
+const renderInline = (nodes: MarkdownInline[]): React.ReactNode[] => nodes.map((node, i) => {
+  switch (node.type) {
+    case 'text': return <React.Fragment key={i}>{node.text}</React.Fragment>;
+    case 'bold': return <strong key={i}>{renderInline(node.children)}</strong>;
+    case 'italic': return <em key={i}>{renderInline(node.children)}</em>;
+    case 'strike': return <s key={i}>{renderInline(node.children)}</s>;
+    case 'code': return <code key={i} className="px-1 rounded bg-black/20 font-mono text-[0.85em]">{node.text}</code>;
+    case 'link':
+      return (
+        <a key={i} href={node.href} target="_blank" rel="noopener noreferrer" onClick={(e) => confirmLink(e, node.href)} className="underline break-all">
+          {node.text}
+        </a>
+      );
+  }
+});
+
+// Peer text only ever reaches the DOM as React text nodes; see utils/markdown.ts
+const MessageMarkdown: React.FC<{ text: string }> = ({ text }) => (
+  <>
+    {parseMarkdown(text).map((block, i) => block.type === 'code-block'
+      ? <CodeBlock key={i} text={block.text} language={block.language} />
+      : <p key={i} className="whitespace-pre-wrap">{renderInline(block.children)}</p>)}
+  </>
+);
+
+// Received file: inline preview where the type allows one, download only on request
+const FileMessage: React.FC<{ msg: DecryptedMessage }> = ({ msg }) => {
+  const { name, size, fileType } = msg.fileInfo!;
+  const preview = FileTransferManager.previewKind(fileType, size);
+
+  if (!msg.fileUrl) {
+    return <p className="text-sm italic opacity-60">📎 {name} — no longer available</p>;
+  }
+
+  return (
+    <div className="space-y-2">
+      {preview === 'image' && <img src={msg.fileUrl} alt={name} className="max-h-72 rounded-lg object-contain" />}
+      {preview === 'audio' && <audio src={msg.fileUrl} controls className="w-64 max-w-full" />}
+      {preview === 'video' && <video src={msg.fileUrl} controls className="max-h-72 rounded-lg" />}
+      {preview === 'text' && (
+        <iframe src={msg.fileUrl} sandbox="" title={name} className="w-72 max-w-full h-48 rounded-lg bg-white" />
+      )}
+      <div className="flex items-center justify-between space-x-3 text-xs">
+        <span className="truncate" title={name}>📎 {name} <span className="opacity-60">({(size / 1024).toFixed(1)} KB)</span></span>
+        <a href={msg.fileUrl} download={name} className="flex-shrink-0 px-3 py-1 rounded-full border border-[#333] hover:border-[#00FF41] hover:text-[#00FF41] transition-colors">
+          Download
+        </a>
+      </div>
+    </div>
   );
 };
 
+// One-line summary of a message for reply quotes and banners
+const previewText = (msg: DecryptedMessage) => msg.fileInfo ? `📎 ${msg.fileInfo.name}` : msg.text;
+
 const ChatRoom: React.FC = () => {
   const {
     roomId, messages, sendMessage,
@@ -26,10 +297,22 @@ const ChatRoom: React.FC = () => {
     activeUsers,
     activeTransfers, startFileTransfer, acceptFileTransfer, declineFileTransfer, cancelTransfer,
     activeChatTarget,
-    typingUsers, sendTyping
+    typingUsers, sendTyping,
+    keyChangeAlerts, confirmKeyChange,
+    verifiedUsers,
+    isRoomProtected,
+    markConversationRead,
+    editMessage, deleteMessage,
+    toggleReaction, userIdentity
   } = useChat();
 
   const [inputText, setInputText] = useState('');
+  const [editingMessage, setEditingMessage] = useState<DecryptedMessage | null>(null);
+  const [replyingTo, setReplyingTo] = useState<DecryptedMessage | null>(null);
+  const [highlightedId, setHighlightedId] = useState<string | null>(null);
+  const [reactionPickerFor, setReactionPickerFor] = useState<string | null>(null);
+  const [keepMetadataOnce, setKeepMetadataOnce] = useState(false); // Applies to the next file only
+  const [showSafetyNumber, setShowSafetyNumber] = useState(false);
   const messagesEndRef = useRef<HTMLDivElement>(null);
   const fileInputRef = useRef<HTMLInputElement>(null);
 
@@ -40,12 +323,87 @@ const ChatRoom: React.FC = () => {
   const targetUser = activeChatTarget === 'ROOM'
     ? null
     : activeUsers.find(u => u.socketId === activeChatTarget);
+  const isTargetVerified = !!targetUser && verifiedUsers.includes(targetUser.username);
+
+  useEffect(() => { setShowSafetyNumber(false); setEditingMessage(null); setReplyingTo(null); setReactionPickerFor(null); setKeepMetadataOnce(false); }, [activeChatTarget]);
+
+  const canChange = (msg: DecryptedMessage) => msg.senderIsSelf && !msg.isSystem && !msg.isDeleted && Date.now() - msg.timestamp <= getMessageEditWindow();
+
+  const startEditing = (msg: DecryptedMessage) => {
+    setReplyingTo(null);
+    setEditingMessage(msg);
+    setInputText(msg.text || '');
+  };
+
+  const cancelEditing = () => {
+    setEditingMessage(null);
+    setInputText('');
+  };
+
+  const startReplying = (msg: DecryptedMessage) => {
+    if (editingMessage) cancelEditing();
+    setReplyingTo(msg);
+  };
+
+  // The original may have disappeared (expiry timer) or never reached this client
+  const findOriginal = (id: string) => filteredMessages.find(m => m.id === id);
+
+  const scrollToMessage = (id: string) => {
+    const element = document.getElementById(`msg-${id}`);
+    if (!element) return;
+    element.scrollIntoView({ behavior: 'smooth', block: 'center' });
+    setHighlightedId(id);
+    setTimeout(() => setHighlightedId(current => (current === id ? null : current)), 1500);
+  };
+
+  const renderQuote = (replyTo: string, senderIsSelf: boolean) => {
+    const original = findOriginal(replyTo);
+    const border = senderIsSelf ? 'border-black/30' : 'border-[#00FF41]/50';
+    if (!original) {
+      return <div className={`mb-2 pl-2 border-l-2 ${border} text-xs italic opacity-60`}>Original message is no longer available</div>;
+    }
+    return (
+      <button
+        type="button"
+        onClick={() => scrollToMessage(original.id)}
+        className={`block w-full text-left mb-2 pl-2 border-l-2 ${border} text-xs opacity-70 hover:opacity-100 transition-opacity`}
+      >
+        <span className="font-bold">{original.senderIsSelf ? 'You' : original.senderName}</span>
+        <span className="block truncate">{original.isDeleted ? '🚫 Message deleted' : previewText(original)}</span>
+      </button>
+    );
+  };
+
+  const handleReaction = async (msg: DecryptedMessage, emoji: string) => {
+    setReactionPickerFor(null);
+    if (!(await toggleReaction(msg.id, emoji))) console.warn('Reaction could not be sent.');
+  };
+
+  const handleDelete = async (msg: DecryptedMessage) => {
+    if (!window.confirm('Delete this message for everyone?')) return;
+    if (!(await deleteMessage(msg.id))) alert('The message could not be deleted. The edit window may have passed.');
+  };
+
+  // Verified contacts in this conversation whose identity key changed; sending is blocked until confirmed
+  const changedKeyUsers = keyChangeAlerts.filter(username => activeChatTarget === 'ROOM'
+    ? activeUsers.some(u => u.username === username && u.isOnline)
+    : targetUser?.username === username);
+  const isSendBlocked = changedKeyUsers.length > 0;
 
   const handleSendMessage = async (e: React.FormEvent) => {
     e.preventDefault();
     if (inputText.trim()) {
       try {
-        await sendMessage(inputText.trim());
+        if (editingMessage) {
+          if (!(await editMessage(editingMessage.id, inputText.trim()))) {
+            alert('The message could not be edited. The edit window may have passed.');
+            return;
+          }
+          setEditingMessage(null);
+        } else {
+          await sendMessage(inputText.trim(), replyingTo?.id);
+          setReplyingTo(null);
+        }
         setInputText('');
       } catch (error) {
         console.error("Error sending message:", error);
@@ -53,24 +411,24 @@ const ChatRoom: React.FC = () => {
     }
   };
 
+  // Room files go to every member; DMs to the open peer
+  const sendFile = async (file: File) => {
+    const options = { keepMetadata: keepMetadataOnce };
+    setKeepMetadataOnce(false);
+    if (activeChatTarget === 'ROOM') {
+      await startFileTransfer(file, 'ROOM', options);
+    } else {
+      await startFileTransfer(file, activeChatTarget, options);
+    }
+  };
+
   const handleFileSelect = async (e: React.ChangeEvent<HTMLInputElement>) => {
     if (e.target.files && e.target.files[0]) {
       const file = e.target.files[0];
-
-      if (activeChatTarget === 'ROOM') {
-        // Send file to all users in the room
-        try {
-          await startFileTransfer(file, 'ROOM');
-        } catch (e) {
-          console.error("Group transfer failed:", e);
-        }
-      } else {
-        // DM File Transfer
-        try {
-          await startFileTransfer(file, activeChatTarget);
-        } catch (e) {
-          console.error("Transfer failed:", e);
-        }
+      try {
+        await sendFile(file);
+      } catch (e) {
+        console.error(activeChatTarget === 'ROOM' ? "Group transfer failed:" : "Transfer failed:", e);
       }
     }
     if (fileInputRef.current) fileInputRef.current.value = '';
@@ -80,6 +438,13 @@ const ChatRoom: React.FC = () => {
     messagesEndRef.current?.scrollIntoView({ behavior: "smooth" });
   }, [filteredMessages, activeTransfers]); // Added activeTransfers dependency
 
+  // Read receipts go out only while this conversation is actually on screen
+  useEffect(() => {
+    markConversationRead();
+    document.addEventListener('visibilitychange', markConversationRead);
+    return () => document.removeEventListener('visibilitychange', markConversationRead);
+  }, [filteredMessages, activeChatTarget]);
+
   const renderMessageText = (msg: DecryptedMessage) => {
     let prefix = "";
     if (msg.isSystem) {
@@ -143,30 +508,66 @@ const ChatRoom: React.FC = () => {
               <div className="flex items-center truncate">
                 <span className="w-2 h-2 rounded-full bg-[#00FF41] mr-2 flex-shrink-0 shadow-[0_0_5px_#00FF41]"></span>
                 <span className="truncate tracking-tight">{targetUser?.username || 'Unknown User'}</span>
+                {isTargetVerified && (
+                  <span className="ml-2 flex-shrink-0 text-[10px] font-bold text-[#00FF41] border border-[#00FF41]/40 px-1.5 py-0.5 rounded-full" title="Safety number verified">
+                    ✓ Verified
+                  </span>
+                )}
               </div>
             )}
           </h2>
           <div className="text-xs text-[#86868b] font-medium">
             {activeChatTarget === 'ROOM' ? (
-              `${activeUsers.length} members online`
+              `${activeUsers.length} members online${isRoomProtected ? ' • 🔐 Passphrase protected' : ''}`
             ) : (
               <div className="flex flex-col">
                 <span className="uppercase tracking-wider text-[10px]">End-to-End Encrypted</span>
-                <SafetyNumberDisplay targetSocketId={activeChatTarget} />
+                {targetUser && (
+                  <button onClick={() => setShowSafetyNumber(!showSafetyNumber)} className="text-left text-gray-500 hover:text-white font-mono mt-1 flex items-center transition-colors">
+                    <span className="mr-1">🔒</span> {showSafetyNumber ? 'Hide safety number' : 'View safety number'}
+                  </button>
+                )}
               </div>
             )}
           </div>
         </div>
-        {activeChatTarget !== 'ROOM' && (
-          <button
-            onClick={() => useChat().closeDirectChat(activeChatTarget)}
-            className="px-4 py-1.5 bg-[#1A1A1A] hover:bg-[#333] text-white text-xs font-medium rounded-full transition-colors border border-[#333]"
-          >
-            End Chat
-          </button>
-        )}
+        <div className="flex items-center space-x-2">
+          {(activeChatTarget !== 'ROOM' || roomId !== 'Direct Chat') && <ExpiryTimerSelect />}
+          {activeChatTarget === 'ROOM' && roomId !== 'Direct Chat' && <InviteLinkButton />}
+          {activeChatTarget !== 'ROOM' && (
+            <button
+              onClick={() => useChat().closeDirectChat(activeChatTarget)}
+              className="px-4 py-1.5 bg-[#1A1A1A] hover:bg-[#333] text-white text-xs font-medium rounded-full transition-colors border border-[#333]"
+            >
+              End Chat
+            </button>
+          )}
+        </div>
       </div>
 
+      {showSafetyNumber && targetUser && (
+        <SafetyNumberPanel targetSocketId={targetUser.socketId} username={targetUser.username} onClose={() => setShowSafetyNumber(false)} />
+      )}
+
+      {/* Key Change Confirmation */}
+      {isSendBlocked && (
+        <div className="bg-[#1A0A00] p-3 border-b border-[#F59E0B]/40 space-y-2">
+          {changedKeyUsers.map(username => (
+            <div key={username} className="flex justify-between items-center space-x-3">
+              <p className="text-xs text-[#F59E0B]">
+                🔑 The identity key of <span className="font-bold">{username}</span> changed after you verified it. Sending is paused until you accept the new key.
+              </p>
+              <button
+                onClick={() => confirmKeyChange(username)}
+                className="flex-shrink-0 bg-[#F59E0B] hover:bg-[#D97706] text-black text-xs font-bold px-3 py-1 rounded-full transition-colors"
+              >
+                Accept New Key
+              </button>
+            </div>
+          ))}
+        </div>
+      )}
+
       {/* Active File Transfers */}
       {displayTransfers.length > 0 && (
         <div className="bg-[#0A0A0A] p-2 border-b border-[#1A1A1A] space-y-2 max-h-40 overflow-y-auto custom-scrollbar">
@@ -252,6 +653,7 @@ const ChatRoom: React.FC = () => {
         {filteredMessages.map((msg: DecryptedMessage) => (
           <div
             key={msg.id}
+            id={`msg-${msg.id}`}
             className={`flex flex-col ${msg.isSystem ? 'items-center' : (msg.senderIsSelf ? 'items-end' : 'items-start')}`}
           >
             {!msg.isSystem && !msg.senderIsSelf && activeChatTarget === 'ROOM' && (
@@ -264,14 +666,72 @@ const ChatRoom: React.FC = () => {
                 : msg.senderIsSelf
                   ? 'bg-white text-black rounded-[20px] rounded-br-sm'
                   : 'bg-[#1A1A1A] text-[#F5F5F7] rounded-[20px] rounded-bl-sm border border-[#333]'
-                }`}
+                } ${highlightedId === msg.id ? 'ring-2 ring-[#00FF41]' : ''}`}
             >
-              <p className="text-sm break-words whitespace-pre-wrap leading-relaxed font-medium">{renderMessageText(msg)}</p>
+              {msg.replyTo && !msg.isDeleted && renderQuote(msg.replyTo, msg.senderIsSelf)}
+              {msg.isDeleted ? (
+                <p className="text-sm italic opacity-60">🚫 Message deleted</p>
+              ) : (
+                msg.fileInfo ? (
+                  <FileMessage msg={msg} />
+                ) : msg.isSystem ? (
+                  <p className="text-sm break-words whitespace-pre-wrap leading-relaxed font-medium">{renderMessageText(msg)}</p>
+                ) : (
+                  <div className="text-sm break-words leading-relaxed font-medium space-y-1"><MessageMarkdown text={msg.text || ''} /></div>
+                )
+              )}
             </div>
 
+            {msg.reactions && !msg.isDeleted && (
+              <div className={`flex flex-wrap gap-1 mt-1 ${msg.senderIsSelf ? 'justify-end' : 'justify-start'}`}>
+                {Object.entries(msg.reactions).map(([emoji, reactors]) => (
+                  <button
+                    key={emoji}
+                    onClick={() => handleReaction(msg, emoji)}
+                    title={reactors.map(name => name === userIdentity?.username ? 'You' : name).join(', ')}
+                    className={`px-2 py-0.5 rounded-full text-xs border transition-colors ${userIdentity && reactors.includes(userIdentity.username)
+                      ? 'border-[#00FF41]/50 bg-[#00FF41]/10 text-[#F5F5F7]'
+                      : 'border-[#333] bg-[#1A1A1A] text-[#86868b] hover:border-[#555]'}`}
+                  >
+                    {emoji} {reactors.length}
+                  </button>
+                ))}
+              </div>
+            )}
+
+            {reactionPickerFor === msg.id && (
+              <div className="flex gap-1 mt-1 px-2 py-1 bg-[#1A1A1A] border border-[#333] rounded-full">
+                {REACTION_EMOJIS.map(emoji => (
+                  <button key={emoji} onClick={() => handleReaction(msg, emoji)} className="text-sm hover:scale-125 transition-transform">{emoji}</button>
+                ))}
+              </div>
+            )}
+
             {!msg.isSystem && (
               <span className={`text-[10px] text-[#444] mt-1 ${msg.senderIsSelf ? 'mr-1' : 'ml-1'}`}>
                 {new Date(msg.timestamp).toLocaleTimeString([], { hour: '2-digit', minute: '2-digit' })}
+                {msg.editedAt && !msg.isDeleted && <span title={`Edited at ${new Date(msg.editedAt).toLocaleTimeString()}`}> · edited</span>}
+                {msg.expiresAt && <span title={`Disappears at ${new Date(msg.expiresAt).toLocaleTimeString()}`}> ⏱</span>}
+                {msg.senderIsSelf && msg.status && (
+                  <span className={`ml-1 ${STATUS_TICKS[msg.status].className}`} title={STATUS_TICKS[msg.status].label}>{STATUS_TICKS[msg.status].icon}</span>
+                )}
+                {!msg.isDeleted && (
+                  <>
+                    <button onClick={() => startReplying(msg)} className="ml-2 text-[#444] hover:text-white transition-colors">Reply</button>
+                    <button
+                      onClick={() => setReactionPickerFor(reactionPickerFor === msg.id ? null : msg.id)}
+                      className="ml-2 text-[#444] hover:text-white transition-colors"
+                    >
+                      React
+                    </button>
+                  </>
+                )}
+                {canChange(msg) && (
+                  <>
+                    <button onClick={() => startEditing(msg)} className="ml-2 text-[#444] hover:text-white transition-colors">Edit</button>
+                    <button onClick={() => handleDelete(msg)} className="ml-2 text-[#444] hover:text-red-500 transition-colors">Delete</button>
+                  </>
+                )}
               </span>
             )}
           </div>
@@ -292,6 +752,18 @@ const ChatRoom: React.FC = () => {
 
       {/* Input Area */}
       <div className="p-4 bg-[#050505] border-t border-[#1A1A1A]">
+        {editingMessage && (
+          <div className="flex justify-between items-center mb-2 px-2 text-xs text-[#86868b]">
+            <span className="truncate">✏️ Editing: <span className="text-[#F5F5F7]">{editingMessage.text}</span></span>
+            <button type="button" onClick={cancelEditing} className="ml-3 flex-shrink-0 hover:text-white">Cancel</button>
+          </div>
+        )}
+        {replyingTo && (
+          <div className="flex justify-between items-center mb-2 px-2 text-xs text-[#86868b]">
+            <span className="truncate">↩️ Replying to {replyingTo.senderIsSelf ? 'yourself' : replyingTo.senderName}: <span className="text-[#F5F5F7]">{previewText(replyingTo)}</span></span>
+            <button type="button" onClick={() => setReplyingTo(null)} className="ml-3 flex-shrink-0 hover:text-white">Cancel</button>
+          </div>
+        )}
         <form onSubmit={handleSendMessage} className="flex items-center space-x-3">
           <input
             type="file"
@@ -302,13 +774,25 @@ const ChatRoom: React.FC = () => {
           <button
             type="button"
             onClick={() => fileInputRef.current?.click()}
+            disabled={isSendBlocked}
             className="p-3 text-[#86868b] hover:text-white transition-colors rounded-full hover:bg-[#1A1A1A]"
-            title="Attach File"
+            title={keepMetadataOnce ? "Attach File (metadata kept)" : "Attach File"}
           >
             <svg xmlns="http://www.w3.org/2000/svg" className="h-5 w-5" fill="none" viewBox="0 0 24 24" stroke="currentColor">
               <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M15.172 7l-6.586 6.586a2 2 0 102.828 2.828l6.414-6.586a4 4 0 00-5.656-5.656l-6.415 6.585a6 6 0 108.486 8.486L20.5 13" />
             </svg>
           </button>
+          {isMetadataStrippingEnabled() && (
+            <button
+              type="button"
+              onClick={() => setKeepMetadataOnce(!keepMetadataOnce)}
+              className={`text-[10px] font-mono px-2 py-1 rounded-full border transition-colors ${keepMetadataOnce ? 'border-yellow-500 text-yellow-500' : 'border-[#333] text-[#444] hover:text-white'}`}
+              title={keepMetadataOnce ? "The next file is sent with its metadata" : "Metadata is removed from files. Click to keep it for the next file only"}
+              aria-pressed={keepMetadataOnce}
+            >
+              {keepMetadataOnce ? 'META KEPT' : 'META OFF'}
+            </button>
+          )}
 
           <input
             type="text"
@@ -323,23 +807,18 @@ const ChatRoom: React.FC = () => {
               for (let i = 0; i < items.length; i++) {
                 if (items[i].type.indexOf('image') !== -1) {
                   const file = items[i].getAsFile();
-                  if (file) {
-                    if (activeChatTarget === 'ROOM') {
-                      await startFileTransfer(file, 'ROOM');
-                    } else {
-                      await startFileTransfer(file, activeChatTarget);
-                    }
-                  }
+                  if (file) await sendFile(file);
                 }
               }
             }}
-            placeholder={activeChatTarget === 'ROOM' ? "Message #General..." : `Message ${targetUser?.username || 'User'}...`}
+            disabled={isSendBlocked}
+            placeholder={isSendBlocked ? "Confirm the changed key to continue..." : activeChatTarget === 'ROOM' ? "Message #General..." : `Message ${targetUser?.username || 'User'}...`}
             className="flex-grow px-5 py-3 bg-[#1A1A1A] border border-[#333] rounded-full text-white placeholder-[#555] focus:outline-none focus:ring-1 focus:ring-white focus:border-white transition-all"
           />
 
           <button
             type="submit"
-            disabled={!inputText.trim()}
+            disabled={!inputText.trim() || isSendBlocked}
             className="p-3 bg-white hover:bg-gray-200 text-black rounded-full shadow-[0_0_15px_rgba(255,255,255,0.1)] transition-transform transform hover:scale-105 disabled:opacity-50 disabled:scale-100 disabled:shadow-none"
           >
             <svg xmlns="http://www.w3.org/2000/svg" className="h-5 w-5" viewBox="0 0 20 20" fill="currentColor">
@@ -1,10 +1,22 @@
-import React, { useState } from 'react';
+import React, { useState, useEffect } from 'react';
 import { useChat } from '../contexts/ChatContext';
 import { generateRandomIdentity, storeIdentity } from '../utils/userManager';
+import { RoomInvite, generateInviteSecret, isInviteExpired } from '../utils/inviteLink';
+import PasscodeSettings from './PasscodeSettings';
+import ExportIdentity from './ExportIdentity';
+import PrivacySettings from './PrivacySettings';
 
-const CreateOrJoinRoom: React.FC = () => {
-  const { joinRoom, userIdentity, unreadCounts, messages, directMessages, activeUsers, chatRequests, startDirectChat, acceptDirectChat, checkUserOnline } = useChat();
-  const [roomName, setRoomName] = useState('');
+interface CreateOrJoinRoomProps {
+  invite?: RoomInvite | null;
+  autoJoin?: boolean;
+  onAutoJoin?: () => void;
+}
+
+const CreateOrJoinRoom: React.FC<CreateOrJoinRoomProps> = ({ invite, autoJoin = false, onAutoJoin }) => {
+  const { joinRoom, roomJoinError, ownKeyPair, isEphemeral, userIdentity, unreadCounts, messages, directMessages, activeUsers, chatRequests, startDirectChat, acceptDirectChat, checkUserOnline } = useChat();
+  const isInviteStale = !!invite && isInviteExpired(invite);
+  const [roomName, setRoomName] = useState(invite?.roomId || '');
+  const [roomPassphrase, setRoomPassphrase] = useState(isInviteStale ? '' : invite?.secret || '');
   const [targetUsername, setTargetUsername] = useState('');
   const [isJoining, setIsJoining] = useState(false);
   const [mode, setMode] = useState<'ROOM' | 'DIRECT'>('ROOM');
@@ -54,12 +66,20 @@ const CreateOrJoinRoom: React.FC = () => {
     setIsJoining(false);
   };
 
+  // Invite links: join as soon as the identity keys are ready
+  useEffect(() => {
+    if (!autoJoin || !invite || !userIdentity || !ownKeyPair) return;
+    onAutoJoin?.();
+    setIsJoining(true);
+    joinRoom(invite.roomId, invite.secret).finally(() => setIsJoining(false));
+  }, [autoJoin, invite, userIdentity, ownKeyPair]);
+
   const handleJoinRoom = async (e: React.FormEvent) => {
     e.preventDefault();
     if (!roomName.trim()) return;
 
     setIsJoining(true);
-    await joinRoom(roomName);
+    await joinRoom(roomName, roomPassphrase || undefined);
     setIsJoining(false);
   };
 
@@ -156,6 +176,10 @@ const CreateOrJoinRoom: React.FC = () => {
           </div>
         </div>
 
+        {!isEphemeral && <PasscodeSettings />}
+        {!isEphemeral && <ExportIdentity />}
+        <PrivacySettings />
+
         {/* Tabs */}
         <div className="flex mb-8 border-b border-[#333]">
           <button
@@ -188,6 +212,43 @@ const CreateOrJoinRoom: React.FC = () => {
                 required
               />
             </div>
+            <div>
+              <div className="flex justify-between items-center mb-2">
+                <label htmlFor="roomPassphrase" className="block text-xs font-bold text-[#86868b] uppercase tracking-wider">
+                  Room Passphrase <span className="normal-case font-normal">(optional)</span>
+                </label>
+                <button
+                  type="button"
+                  onClick={() => setRoomPassphrase(generateInviteSecret())}
+                  className="text-[10px] text-[#86868b] hover:text-white transition-colors"
+                  title="Generate a random secret to share with an invite link"
+                >
+                  Generate
+                </button>
+              </div>
+              <input
+                type="password"
+                id="roomPassphrase"
+                value={roomPassphrase}
+                onChange={(e) => setRoomPassphrase(e.target.value)}
+                className="w-full px-4 py-3 bg-[#050505] border border-[#333] rounded-xl text-white focus:ring-1 focus:ring-white focus:border-white outline-none transition-all placeholder-[#444]"
+                placeholder="Leave empty for an open room"
+                autoComplete="off"
+              />
+              <p className="text-[10px] text-[#86868b] mt-2">
+                * Members must prove the passphrase before they receive room keys
+              </p>
+            </div>
+            {isInviteStale && (
+              <p className="text-xs text-[#F59E0B] bg-[#1A0A00] border border-[#F59E0B]/40 rounded-xl px-4 py-3">
+                This invite link expired on {new Date(invite!.expiresAt!).toLocaleString()}. Ask for a new one.
+              </p>
+            )}
+            {roomJoinError && (
+              <p className="text-xs text-red-400 bg-red-900/20 border border-red-500/30 rounded-xl px-4 py-3">
+                {roomJoinError}
+              </p>
+            )}
             <button
               type="submit"
               disabled={isJoining}
@@ -0,0 +1,90 @@
+import React, { useState } from 'react';
+import { useChat } from '../contexts/ChatContext';
+
+const MIN_BACKUP_PASSPHRASE_LENGTH = 8;
+
+const ExportIdentity: React.FC = () => {
+  const { userIdentity, isPasscodeSet, exportIdentity } = useChat();
+  const [isOpen, setIsOpen] = useState(false);
+  const [passcode, setPasscode] = useState('');
+  const [backupPassphrase, setBackupPassphrase] = useState('');
+  const [isExporting, setIsExporting] = useState(false);
+  const [message, setMessage] = useState<string | null>(null);
+
+  const handleExport = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (backupPassphrase.length < MIN_BACKUP_PASSPHRASE_LENGTH) {
+      setMessage(`Use a backup passphrase of at least ${MIN_BACKUP_PASSPHRASE_LENGTH} characters.`);
+      return;
+    }
+
+    setIsExporting(true);
+    setMessage(null);
+    try {
+      const backup = await exportIdentity(passcode, backupPassphrase);
+      if (!backup) {
+        setMessage('Wrong passcode.');
+        return;
+      }
+
+      const url = URL.createObjectURL(new Blob([backup], { type: 'application/json' }));
+      const link = document.createElement('a');
+      link.href = url;
+      link.download = `benull-identity-${(userIdentity?.username || 'backup').replace(/[^A-Za-z0-9]/g, '')}.json`;
+      link.click();
+      URL.revokeObjectURL(url);
+
+      setIsOpen(false);
+      setPasscode('');
+      setBackupPassphrase('');
+      setMessage('Backup saved. Keep the file and its passphrase apart.');
+    } catch (error) {
+      console.error("Identity export failed:", error);
+      setMessage('Could not create the backup.');
+    } finally {
+      setIsExporting(false);
+    }
+  };
+
+  const inputClass = "w-full px-3 py-2 bg-[#050505] border border-[#333] rounded-xl text-white text-sm focus:ring-1 focus:ring-white focus:border-white outline-none transition-all placeholder-[#444]";
+
+  return (
+    <div className="mb-8 -mt-6">
+      <div className="flex justify-between items-center text-xs">
+        <span className="text-[#86868b]">Identity backup</span>
+        {!isOpen && (
+          <button onClick={() => { setMessage(null); setIsOpen(true); }} className="text-[#86868b] hover:text-white transition-colors">
+            Export Identity
+          </button>
+        )}
+      </div>
+
+      {isOpen && (
+        isPasscodeSet ? (
+          <form onSubmit={handleExport} className="mt-3 p-4 bg-[#050505] rounded-2xl border border-[#333] space-y-3">
+            <input type="password" value={passcode} onChange={(e) => setPasscode(e.target.value)} className={inputClass} placeholder="Current passcode" autoComplete="current-password" required />
+            <input type="password" value={backupPassphrase} onChange={(e) => setBackupPassphrase(e.target.value)} className={inputClass} placeholder="Backup passphrase" autoComplete="new-password" required />
+            <p className="text-[10px] text-[#86868b]">
+              The file contains your username, keys and verified contacts, encrypted with the backup passphrase.
+            </p>
+            <div className="flex justify-end space-x-3 text-xs">
+              <button type="button" onClick={() => setIsOpen(false)} className="text-[#86868b] hover:text-white transition-colors">Cancel</button>
+              <button type="submit" disabled={isExporting} className="bg-white hover:bg-gray-200 text-black font-bold px-4 py-1.5 rounded-full transition-colors disabled:opacity-50">
+                {isExporting ? 'Encrypting...' : 'Download Backup'}
+              </button>
+            </div>
+          </form>
+        ) : (
+          <div className="mt-3 p-4 bg-[#050505] rounded-2xl border border-[#333] text-xs text-[#86868b] flex justify-between items-center">
+            <span>Keys without a passcode never leave this browser. Set a passcode first to export them.</span>
+            <button onClick={() => setIsOpen(false)} className="ml-3 hover:text-white transition-colors">Close</button>
+          </div>
+        )
+      )}
+
+      {message && <p className="mt-2 text-xs text-[#86868b]">{message}</p>}
+    </div>
+  );
+};
+
+export default ExportIdentity;
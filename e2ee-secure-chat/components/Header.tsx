@@ -1,12 +1,13 @@
 import React, { useState } from 'react';
 import { useChat } from '../contexts/ChatContext';
+import { getPanicShortcut } from '../utils/securitySettings';
 
 interface HeaderProps {
   onToggleSidebar?: () => void;
 }
 
 const Header: React.FC<HeaderProps> = ({ onToggleSidebar }) => {
-  const { roomId, leaveRoom, userIdentity, cryptoStatusMessage } = useChat();
+  const { roomId, leaveRoom, userIdentity, cryptoStatusMessage, panic } = useChat();
   const [isIdentityRevealed, setIsIdentityRevealed] = useState(false);
 
   const copyUsername = () => {
@@ -80,6 +81,14 @@ const Header: React.FC<HeaderProps> = ({ onToggleSidebar }) => {
             </div>
           )}
 
+          <button
+            onClick={panic}
+            className="text-red-500 hover:text-white hover:bg-red-600 border border-red-500/50 text-xs font-bold px-3 py-1.5 rounded-full transition-colors"
+            title={`Wipe everything now (${getPanicShortcut()})`}
+          >
+            Panic
+          </button>
+
           {roomId && (
             <button
               onClick={leaveRoom}
@@ -0,0 +1,83 @@
+import React, { useState } from 'react';
+import { openIdentityBackup, restoreIdentityBackup } from '../utils/identityBackup';
+import { isEphemeralKeysEnabled } from '../utils/securitySettings';
+
+interface ImportIdentityProps {
+    onRestored: () => void;
+    onCancel: () => void;
+}
+
+const ImportIdentity: React.FC<ImportIdentityProps> = ({ onRestored, onCancel }) => {
+    const [fileText, setFileText] = useState<string | null>(null);
+    const [fileName, setFileName] = useState('');
+    const [backupPassphrase, setBackupPassphrase] = useState('');
+    const [passcode, setPasscode] = useState('');
+    const [isRestoring, setIsRestoring] = useState(false);
+    const [error, setError] = useState<string | null>(null);
+    // Ephemeral keys mode keeps the restored keys in memory only, so there is nothing to seal
+    const isEphemeral = isEphemeralKeysEnabled();
+
+    const handleFileChange = async (e: React.ChangeEvent<HTMLInputElement>) => {
+        const file = e.target.files?.[0];
+        if (!file) return;
+        setFileName(file.name);
+        setFileText(await file.text());
+        setError(null);
+    };
+
+    const handleRestore = async (e: React.FormEvent) => {
+        e.preventDefault();
+        if (!fileText) return;
+
+        setIsRestoring(true);
+        setError(null);
+        try {
+            const contents = await openIdentityBackup(fileText, backupPassphrase);
+            await restoreIdentityBackup(contents, passcode || undefined);
+            onRestored();
+        } catch (err) {
+            setError(err instanceof Error ? err.message : 'Could not restore the backup.');
+        } finally {
+            setIsRestoring(false);
+        }
+    };
+
+    const inputClass = "w-full px-4 py-3 bg-[#050505] border border-[#333] rounded-xl text-white text-sm focus:ring-1 focus:ring-white focus:border-white outline-none transition-all placeholder-[#444]";
+
+    return (
+        <div className="fixed inset-0 z-[60] bg-black/80 backdrop-blur-sm flex items-center justify-center p-4">
+            <form onSubmit={handleRestore} className="bg-[#1A1A1A] p-8 rounded-[24px] border border-[#333] w-full max-w-sm space-y-4 text-left">
+                <h2 className="text-2xl font-bold text-white tracking-tight">Restore Identity</h2>
+                <p className="text-sm text-[#86868b] font-light">
+                    Replaces the identity in this browser with the one from a backup file.
+                </p>
+
+                <label className="block w-full px-4 py-3 bg-[#050505] border border-dashed border-[#333] rounded-xl text-sm text-[#86868b] hover:text-white cursor-pointer transition-colors truncate">
+                    {fileName || 'Choose backup file...'}
+                    <input type="file" accept="application/json,.json" onChange={handleFileChange} className="hidden" />
+                </label>
+                <input type="password" value={backupPassphrase} onChange={(e) => setBackupPassphrase(e.target.value)} className={inputClass} placeholder="Backup passphrase" autoComplete="off" required />
+                {isEphemeral ? (
+                    <p className="text-xs text-[#86868b]">Ephemeral keys are on: the restored keys last until this page is closed or reloaded.</p>
+                ) : (
+                    <input type="password" value={passcode} onChange={(e) => setPasscode(e.target.value)} className={inputClass} placeholder="New local passcode (optional)" autoComplete="new-password" />
+                )}
+
+                {error && <p className="text-xs text-red-400">{error}</p>}
+
+                <div className="flex justify-end items-center space-x-4 pt-2">
+                    <button type="button" onClick={onCancel} className="text-sm text-[#86868b] hover:text-white transition-colors">Cancel</button>
+                    <button
+                        type="submit"
+                        disabled={!fileText || isRestoring}
+                        className="bg-white hover:bg-gray-200 text-black font-bold px-6 py-2 rounded-full transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
+                    >
+                        {isRestoring ? 'Restoring...' : 'Restore'}
+                    </button>
+                </div>
+            </form>
+        </div>
+    );
+};
+
+export default ImportIdentity;
@@ -1,4 +1,5 @@
 import React, { useEffect, useState } from 'react';
+import ImportIdentity from './ImportIdentity';
 
 interface LandingPageProps {
     onStart: () => void;
@@ -7,6 +8,7 @@ interface LandingPageProps {
 
 const LandingPage: React.FC<LandingPageProps> = ({ onStart, onShowStats }) => {
     const [deferredPrompt, setDeferredPrompt] = useState<any>(null);
+    const [showImport, setShowImport] = useState(false);
 
     useEffect(() => {
         const handleBeforeInstallPrompt = (e: any) => {
@@ -87,8 +89,16 @@ const LandingPage: React.FC<LandingPageProps> = ({ onStart, onShowStats }) => {
                             <polyline points="7 7 17 7 17 17"></polyline>
                         </svg>
                     </button>
+                    <button
+                        onClick={() => setShowImport(true)}
+                        className="text-sm text-[#86868b] hover:text-white transition-colors"
+                    >
+                        Restore identity from backup
+                    </button>
                 </div>
 
+                {showImport && <ImportIdentity onRestored={onStart} onCancel={() => setShowImport(false)} />}
+
                 {/* 3. The Trust Ticker */}
                 <div className="absolute bottom-10 left-0 right-0 flex justify-center">
                     <div className="flex flex-wrap justify-center gap-4 text-xs md:text-sm text-[#444] font-medium uppercase tracking-widest">
@@ -0,0 +1,111 @@
+import React, { useState } from 'react';
+import { useChat } from '../contexts/ChatContext';
+
+const MIN_PASSCODE_LENGTH = 6;
+
+type Mode = 'closed' | 'enable' | 'change' | 'remove';
+
+const PasscodeSettings: React.FC = () => {
+  const { isPasscodeSet, enablePasscode, changePasscode, removePasscode } = useChat();
+  const [mode, setMode] = useState<Mode>('closed');
+  const [currentPasscode, setCurrentPasscode] = useState('');
+  const [newPasscode, setNewPasscode] = useState('');
+  const [confirmPasscode, setConfirmPasscode] = useState('');
+  const [isBusy, setIsBusy] = useState(false);
+  const [message, setMessage] = useState<string | null>(null);
+
+  const close = (result: string | null = null) => {
+    setMode('closed');
+    setCurrentPasscode('');
+    setNewPasscode('');
+    setConfirmPasscode('');
+    setMessage(result);
+  };
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (mode !== 'remove') {
+      if (newPasscode.length < MIN_PASSCODE_LENGTH) {
+        setMessage(`Use at least ${MIN_PASSCODE_LENGTH} characters.`);
+        return;
+      }
+      if (newPasscode !== confirmPasscode) {
+        setMessage('Passcodes do not match.');
+        return;
+      }
+    }
+
+    setIsBusy(true);
+    try {
+      if (mode === 'enable') {
+        await enablePasscode(newPasscode);
+        close('Passcode set. Online contacts received your new keys.');
+        return;
+      }
+      const succeeded = mode === 'change'
+        ? await changePasscode(currentPasscode, newPasscode)
+        : await removePasscode(currentPasscode);
+      if (succeeded) {
+        close(mode === 'change' ? 'Passcode changed.' : 'Passcode removed.');
+      } else {
+        setMessage('Wrong passcode.');
+      }
+    } catch (error) {
+      console.error("Passcode update failed:", error);
+      setMessage('Could not update the passcode.');
+    } finally {
+      setIsBusy(false);
+    }
+  };
+
+  const inputClass = "w-full px-3 py-2 bg-[#050505] border border-[#333] rounded-xl text-white text-sm focus:ring-1 focus:ring-white focus:border-white outline-none transition-all placeholder-[#444]";
+
+  return (
+    <div className="mb-8 -mt-4">
+      <div className="flex justify-between items-center text-xs">
+        <span className="text-[#86868b]">
+          {isPasscodeSet ? '🔐 Keys protected by passcode' : 'Keys not protected by a passcode'}
+        </span>
+        {mode === 'closed' && (
+          isPasscodeSet ? (
+            <div className="space-x-3">
+              <button onClick={() => { setMessage(null); setMode('change'); }} className="text-[#86868b] hover:text-white transition-colors">Change</button>
+              <button onClick={() => { setMessage(null); setMode('remove'); }} className="text-[#86868b] hover:text-red-400 transition-colors">Remove</button>
+            </div>
+          ) : (
+            <button onClick={() => { setMessage(null); setMode('enable'); }} className="text-[#86868b] hover:text-white transition-colors">Set Passcode</button>
+          )
+        )}
+      </div>
+
+      {mode !== 'closed' && (
+        <form onSubmit={handleSubmit} className="mt-3 p-4 bg-[#050505] rounded-2xl border border-[#333] space-y-3">
+          {mode === 'enable' && (
+            <p className="text-[10px] text-[#F59E0B]">
+              Setting a passcode creates new identity keys. Online contacts receive them signed with your current keys; offline contacts will see a key change.
+            </p>
+          )}
+          {mode !== 'enable' && (
+            <input type="password" value={currentPasscode} onChange={(e) => setCurrentPasscode(e.target.value)} className={inputClass} placeholder="Current passcode" autoComplete="current-password" required />
+          )}
+          {mode !== 'remove' && (
+            <>
+              <input type="password" value={newPasscode} onChange={(e) => setNewPasscode(e.target.value)} className={inputClass} placeholder="New passcode" autoComplete="new-password" required />
+              <input type="password" value={confirmPasscode} onChange={(e) => setConfirmPasscode(e.target.value)} className={inputClass} placeholder="Confirm passcode" autoComplete="new-password" required />
+            </>
+          )}
+          <div className="flex justify-end space-x-3 text-xs">
+            <button type="button" onClick={() => close()} className="text-[#86868b] hover:text-white transition-colors">Cancel</button>
+            <button type="submit" disabled={isBusy} className="bg-white hover:bg-gray-200 text-black font-bold px-4 py-1.5 rounded-full transition-colors disabled:opacity-50">
+              {isBusy ? 'Working...' : mode === 'remove' ? 'Remove Passcode' : 'Save Passcode'}
+            </button>
+          </div>
+        </form>
+      )}
+
+      {message && <p className="mt-2 text-xs text-[#86868b]">{message}</p>}
+    </div>
+  );
+};
+
+export default PasscodeSettings;
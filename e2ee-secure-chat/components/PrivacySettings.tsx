@@ -0,0 +1,180 @@
+import React, { useState } from 'react';
+import { useChat } from '../contexts/ChatContext';
+import { KEY_ROTATION_INTERVAL_OPTIONS, MESSAGE_EDIT_WINDOW_OPTIONS, PADDING_POLICY_OPTIONS } from '../constants';
+import { PaddingPolicy } from '../utils/encryptionService';
+import { areReadReceiptsEnabled, getKeyRotationInterval, getMessageEditWindow, getPaddingPolicy, getPanicShortcut, isMetadataStrippingEnabled, setKeyRotationInterval, setMessageEditWindow, setMetadataStrippingEnabled, setPaddingPolicy, setPanicShortcut, setReadReceiptsEnabled, shortcutFromEvent } from '../utils/securitySettings';
+
+const PrivacySettings: React.FC = () => {
+  const { isEphemeral, setEphemeralKeys, rotateIdentityKeys } = useChat();
+  const [shortcut, setShortcut] = useState(() => getPanicShortcut());
+  const [isRecording, setIsRecording] = useState(false);
+  const [rotationInterval, setRotationInterval] = useState(() => getKeyRotationInterval());
+  const [isRotating, setIsRotating] = useState(false);
+  const [paddingPolicy, setPaddingPolicyState] = useState(() => getPaddingPolicy());
+  const [readReceipts, setReadReceipts] = useState(() => areReadReceiptsEnabled());
+  const [editWindow, setEditWindow] = useState(() => getMessageEditWindow());
+  const [stripMetadata, setStripMetadata] = useState(() => isMetadataStrippingEnabled());
+
+  const handleEditWindowChange = (e: React.ChangeEvent<HTMLSelectElement>) => {
+    const windowMs = Number(e.target.value);
+    setMessageEditWindow(windowMs);
+    setEditWindow(windowMs);
+  };
+
+  const toggleStripMetadata = () => {
+    setMetadataStrippingEnabled(!stripMetadata);
+    setStripMetadata(!stripMetadata);
+  };
+
+  const toggleReadReceipts = () => {
+    setReadReceiptsEnabled(!readReceipts);
+    setReadReceipts(!readReceipts);
+  };
+
+  const handlePaddingPolicyChange = (e: React.ChangeEvent<HTMLSelectElement>) => {
+    const policy = e.target.value as PaddingPolicy;
+    setPaddingPolicy(policy);
+    setPaddingPolicyState(policy);
+  };
+
+  const handleRotationIntervalChange = (e: React.ChangeEvent<HTMLSelectElement>) => {
+    const interval = Number(e.target.value);
+    setKeyRotationInterval(interval);
+    setRotationInterval(interval);
+  };
+
+  const handleRotateNow = async () => {
+    setIsRotating(true);
+    try {
+      await rotateIdentityKeys();
+    } catch (e) {
+      console.error("Key rotation failed:", e);
+    } finally {
+      setIsRotating(false);
+    }
+  };
+
+  const handleShortcutKeyDown = (e: React.KeyboardEvent<HTMLButtonElement>) => {
+    if (!isRecording) return;
+    e.preventDefault();
+    e.stopPropagation(); // Recording the current combination must not fire the panic itself
+    if (e.key === 'Escape') {
+      setIsRecording(false);
+      return;
+    }
+    const recorded = shortcutFromEvent(e);
+    if (!recorded) return; // Wait for a combination with Ctrl, Alt or Meta
+    setPanicShortcut(recorded);
+    setShortcut(recorded);
+    setIsRecording(false);
+  };
+
+  return (
+    <div className="mb-8 -mt-6 space-y-2 text-xs">
+      <div className="flex justify-between items-center">
+        <span className="text-[#86868b]" title="A new identity key every session; peers see a key change each time">
+          Ephemeral keys (never saved to disk)
+        </span>
+        <button
+          onClick={() => setEphemeralKeys(!isEphemeral)}
+          className={`w-9 h-5 rounded-full border transition-colors relative ${isEphemeral ? 'bg-[#00FF41]/20 border-[#00FF41]' : 'bg-[#050505] border-[#333]'}`}
+          role="switch"
+          aria-checked={isEphemeral}
+        >
+          <span className={`absolute top-0.5 w-3.5 h-3.5 rounded-full transition-all ${isEphemeral ? 'left-4 bg-[#00FF41]' : 'left-0.5 bg-[#86868b]'}`}></span>
+        </button>
+      </div>
+      <div className="flex justify-between items-center">
+        <span className="text-[#86868b]" title="Delivery receipts are always sent; read receipts tell contacts when you have seen their messages">
+          Send read receipts
+        </span>
+        <button
+          onClick={toggleReadReceipts}
+          className={`w-9 h-5 rounded-full border transition-colors relative ${readReceipts ? 'bg-[#00FF41]/20 border-[#00FF41]' : 'bg-[#050505] border-[#333]'}`}
+          role="switch"
+          aria-checked={readReceipts}
+        >
+          <span className={`absolute top-0.5 w-3.5 h-3.5 rounded-full transition-all ${readReceipts ? 'left-4 bg-[#00FF41]' : 'left-0.5 bg-[#86868b]'}`}></span>
+        </button>
+      </div>
+      <div className="flex justify-between items-center">
+        <span className="text-[#86868b]" title="EXIF/XMP from JPEG, PNG and WebP photos; author and dates from PDF and Office files">
+          Strip file metadata
+        </span>
+        <button
+          onClick={toggleStripMetadata}
+          className={`w-9 h-5 rounded-full border transition-colors relative ${stripMetadata ? 'bg-[#00FF41]/20 border-[#00FF41]' : 'bg-[#050505] border-[#333]'}`}
+          role="switch"
+          aria-checked={stripMetadata}
+        >
+          <span className={`absolute top-0.5 w-3.5 h-3.5 rounded-full transition-all ${stripMetadata ? 'left-4 bg-[#00FF41]' : 'left-0.5 bg-[#86868b]'}`}></span>
+        </button>
+      </div>
+      <div className="flex justify-between items-center">
+        <span className="text-[#86868b]" title="Online contacts receive the new key signed with the old one">
+          Rotate identity key
+        </span>
+        <div className="flex items-center gap-2">
+          <select
+            value={rotationInterval}
+            onChange={handleRotationIntervalChange}
+            className="bg-[#050505] border border-[#333] text-[#86868b] rounded px-1 py-0.5 focus:outline-none focus:border-white"
+          >
+            {KEY_ROTATION_INTERVAL_OPTIONS.map(option => (
+              <option key={option.value} value={option.value}>{option.label}</option>
+            ))}
+          </select>
+          <button
+            onClick={handleRotateNow}
+            disabled={isRotating}
+            className="px-2 py-0.5 rounded border border-[#333] text-[#86868b] hover:text-white transition-colors disabled:opacity-50"
+          >
+            {isRotating ? 'Rotating...' : 'Now'}
+          </button>
+        </div>
+      </div>
+      <div className="flex justify-between items-center">
+        <span className="text-[#86868b]" title="Pads messages before encryption so the relay cannot tell their length">
+          Message length padding
+        </span>
+        <select
+          value={paddingPolicy}
+          onChange={handlePaddingPolicyChange}
+          className="bg-[#050505] border border-[#333] text-[#86868b] rounded px-1 py-0.5 focus:outline-none focus:border-white"
+        >
+          {PADDING_POLICY_OPTIONS.map(option => (
+            <option key={option.value} value={option.value}>{option.label}</option>
+          ))}
+        </select>
+      </div>
+      <div className="flex justify-between items-center">
+        <span className="text-[#86868b]" title="Edits and deletions arriving later than this after the original message are ignored">
+          Allow edits and deletions for
+        </span>
+        <select
+          value={editWindow}
+          onChange={handleEditWindowChange}
+          className="bg-[#050505] border border-[#333] text-[#86868b] rounded px-1 py-0.5 focus:outline-none focus:border-white"
+        >
+          {MESSAGE_EDIT_WINDOW_OPTIONS.map(option => (
+            <option key={option.value} value={option.value}>{option.label}</option>
+          ))}
+        </select>
+      </div>
+      <div className="flex justify-between items-center">
+        <span className="text-[#86868b]">Panic shortcut</span>
+        <button
+          onClick={() => setIsRecording(true)}
+          onKeyDown={handleShortcutKeyDown}
+          onBlur={() => setIsRecording(false)}
+          className={`font-mono px-2 py-0.5 rounded border transition-colors ${isRecording ? 'border-white text-white' : 'border-[#333] text-[#86868b] hover:text-white'}`}
+          title="Click, then press a key combination with Ctrl, Alt or Meta"
+        >
+          {isRecording ? 'Press keys...' : shortcut}
+        </button>
+      </div>
+    </div>
+  );
+};
+
+export default PrivacySettings;
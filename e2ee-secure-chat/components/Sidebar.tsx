@@ -7,7 +7,7 @@ interface SidebarProps {
 }
 
 const Sidebar: React.FC<SidebarProps> = ({ isOpen, onClose }) => {
-    const { activeUsers, userIdentity, activeChatTarget, setActiveChatTarget, unreadCounts, chatRequests, acceptDirectChat, roomId, joinRoom, startDirectChat, directMessages } = useChat();
+    const { activeUsers, userIdentity, activeChatTarget, setActiveChatTarget, unreadCounts, chatRequests, acceptDirectChat, roomId, joinRoom, startDirectChat, directMessages, verifiedUsers } = useChat();
     const [targetUser, setTargetUser] = useState('');
     const [targetRoom, setTargetRoom] = useState('');
 
@@ -186,6 +186,9 @@ const Sidebar: React.FC<SidebarProps> = ({ isOpen, onClose }) => {
                             <div className="flex-1 min-w-0">
                                 <div className="font-bold text-sm truncate">
                                     {user.username}
+                                    {verifiedUsers.includes(user.username) && (
+                                        <span className="ml-1 text-[#00FF41]" title="Safety number verified">✓</span>
+                                    )}
                                 </div>
                                 <div className={`text-[10px] flex items-center ${user.isOnline ? 'text-[#00FF41]' : 'text-[#444]'}`}>
                                     <span className={`w-1.5 h-1.5 rounded-full mr-1.5 ${user.isOnline ? 'bg-[#00FF41] shadow-[0_0_5px_#00FF41]' : 'bg-[#444]'}`}></span>
@@ -225,6 +228,9 @@ const Sidebar: React.FC<SidebarProps> = ({ isOpen, onClose }) => {
                             <div className="flex-1 min-w-0">
                                 <div className="font-bold text-sm truncate">
                                     {user.username}
+                                    {verifiedUsers.includes(user.username) && (
+                                        <span className="ml-1 text-[#00FF41]" title="Safety number verified">✓</span>
+                                    )}
                                 </div>
                                 <div className="text-[10px] text-[#444] flex items-center">
                                     In Room
@@ -0,0 +1,68 @@
+import React, { useState } from 'react';
+import { useChat } from '../contexts/ChatContext';
+import { clearKeys } from '../utils/keyStorage';
+
+const UnlockScreen: React.FC = () => {
+  const { unlockIdentity } = useChat();
+  const [passcode, setPasscode] = useState('');
+  const [isUnlocking, setIsUnlocking] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const handleUnlock = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!passcode) return;
+
+    setIsUnlocking(true);
+    setError(null);
+    const unlocked = await unlockIdentity(passcode);
+    setIsUnlocking(false);
+    if (!unlocked) {
+      setError('Wrong passcode.');
+      setPasscode('');
+    }
+  };
+
+  const handleReset = async () => {
+    if (!window.confirm('Without the passcode your identity keys cannot be recovered. Delete them and start with a new identity?')) return;
+    await clearKeys();
+    window.location.reload();
+  };
+
+  return (
+    <div className="flex flex-col items-center justify-center h-screen bg-[#050505] text-white p-6">
+      <div className="bg-[#1A1A1A] p-8 rounded-[24px] shadow-2xl border border-[#333] w-full max-w-sm">
+        <h1 className="text-2xl font-bold text-center mb-2 tracking-tight">Identity Locked</h1>
+        <p className="text-center text-[#86868b] mb-8 text-sm font-light">
+          Enter your passcode to unlock your identity keys.
+        </p>
+        <form onSubmit={handleUnlock} className="space-y-4">
+          <input
+            type="password"
+            value={passcode}
+            onChange={(e) => setPasscode(e.target.value)}
+            className="w-full px-4 py-3 bg-[#050505] border border-[#333] rounded-xl text-white focus:ring-1 focus:ring-white focus:border-white outline-none transition-all placeholder-[#444]"
+            placeholder="Passcode"
+            autoComplete="current-password"
+            autoFocus
+          />
+          {error && <p className="text-xs text-red-400">{error}</p>}
+          <button
+            type="submit"
+            disabled={isUnlocking || !passcode}
+            className="w-full bg-white hover:bg-gray-200 text-black font-bold py-3 px-4 rounded-full transition-all disabled:opacity-50 disabled:cursor-not-allowed"
+          >
+            {isUnlocking ? 'Unlocking...' : 'Unlock'}
+          </button>
+        </form>
+        <button
+          onClick={handleReset}
+          className="w-full mt-6 text-xs text-[#86868b] hover:text-red-400 transition-colors"
+        >
+          Forgot passcode? Start over with a new identity
+        </button>
+      </div>
+    </div>
+  );
+};
+
+export default UnlockScreen;
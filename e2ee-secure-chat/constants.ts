@@ -10,3 +10,35 @@ export const MESSAGE_EXPIRY_TIMER_OPTIONS = [
 ];
 export const DEFAULT_MESSAGE_EXPIRY_MS = 0; // Never delete by default
 export const APP_VERSION = "1.0.1";
+export const DIRECTORY_LOOKUP_TIMEOUT_MS = 5000; // A find-user lookup without an answer by then counts as not found
+export const INVITE_EXPIRY_OPTIONS = [
+  { value: 0, label: "No Expiry" },
+  { value: 3600000, label: "1 Hour" },    // 60 * 60 * 1000
+  { value: 86400000, label: "1 Day" },    // 24 * 60 * 60 * 1000
+  { value: 604800000, label: "7 Days" },  // 7 * 24 * 60 * 60 * 1000
+];
+export const DEFAULT_PANIC_SHORTCUT = "Ctrl+Shift+X";
+export const KEY_ROTATION_INTERVAL_OPTIONS = [
+  { value: 0, label: "Never" },
+  { value: 86400000, label: "Daily" },     // 24 * 60 * 60 * 1000
+  { value: 604800000, label: "Weekly" },   // 7 * 24 * 60 * 60 * 1000
+  { value: 2592000000, label: "Monthly" }, // 30 * 24 * 60 * 60 * 1000
+];
+export const DEFAULT_KEY_ROTATION_INTERVAL_MS = 604800000; // Weekly
+export const PADDING_POLICY_OPTIONS = [
+  { value: 'padme', label: "Padmé" },       // Size classes grow with the length, overhead stays under ~12%
+  { value: 'buckets', label: "Buckets" },   // 256 B, 1 KB, 4 KB, 16 KB, 64 KB
+  { value: 'none', label: "Off" },
+] as const;
+export const RELAY_ACK_TIMEOUT_MS = 10000; // Without a nexus ack by then, a message is marked as failed
+export const SESSION_RESYNC_COOLDOWN_MS = 30000; // At most one automatic ratchet restart per peer in this time
+export const RECEIPT_BATCH_DELAY_MS = 1000; // Receipts queued in this time go out together, one event per flush
+export const RECEIPT_WAIT_MS = 3600000; // 60 * 60 * 1000; own messages stop waiting for receipts after this
+export const MESSAGE_EDIT_WINDOW_OPTIONS = [
+  { value: 300000, label: "5 Minutes" },   // 5 * 60 * 1000
+  { value: 900000, label: "15 Minutes" },  // 15 * 60 * 1000
+  { value: 3600000, label: "1 Hour" },     // 60 * 60 * 1000
+  { value: 86400000, label: "1 Day" },     // 24 * 60 * 60 * 1000
+];
+export const DEFAULT_MESSAGE_EDIT_WINDOW_MS = 900000; // 15 Minutes
+export const REACTION_EMOJIS = ["👍", "❤️", "😂", "😮", "😢", "🙏"]; // Reactions outside this set are ignored
@@ -1,26 +1,50 @@
 import React, { createContext, useContext, useState, ReactNode, useEffect, useCallback, useRef } from 'react';
 import { io, Socket } from 'socket.io-client';
-import { APP_VERSION } from '../constants';
-import { KeyPair, DecryptedMessage, MessageType, EncryptedTextMessage, UserProfile, SystemMessageType } from '../types';
+import { APP_VERSION, DEFAULT_MESSAGE_EXPIRY_MS, DIRECTORY_LOOKUP_TIMEOUT_MS, MESSAGE_EXPIRY_TIMER_OPTIONS, REACTION_EMOJIS, RECEIPT_BATCH_DELAY_MS, RECEIPT_WAIT_MS, RELAY_ACK_TIMEOUT_MS, SESSION_RESYNC_COOLDOWN_MS } from '../constants';
+import { KeyPair, DecryptedMessage, MessageType, EncryptedTextMessage, EncryptedFileMessage, FileOfferInfo, UserProfile, SystemMessageType, X3DHHandshake, SignedHandshake, SenderKeyDistribution, SenderKeyDistributionMessage, RoomAuthMessage, RoomReceiptMessage, KeyUpdateMessage, ControlMessage, MessageContent, MessageStatus } from '../types';
 import {
   generateAppKeyPair,
+  generateSigningKeyPair,
+  importSigningPublicKeyJwk,
   encryptText,
   decryptText,
   exportPublicKeyJwk,
   importPublicKeyJwk,
   deriveSharedSecret,
+  deriveContextKey,
+  deriveFileTransferKey,
+  encryptFileChunk,
+  decryptFileChunk,
 } from '../utils/encryptionService';
-import { generateRandomIdentity, getStoredIdentity, storeIdentity, UserIdentity } from '../utils/userManager';
+import { clearIdentity, generateRandomIdentity, getStoredIdentity, storeIdentity, UserIdentity } from '../utils/userManager';
+import { RatchetSession, handshakeId, initiateSession, respondToSession, ratchetEncrypt, ratchetDecrypt } from '../utils/doubleRatchet';
+import { SignableEnvelope, canonicalJson, encodeMessageAad, signEnvelope, verifyEnvelope } from '../utils/envelope';
+import { KeyPin, checkAndPinKey, computeKeyFingerprint, confirmPendingKey, encodeIdentity, getAllPins, getPendingKeyChanges, getVerifiedUsernames, rotatePin, setPinVerified } from '../utils/keyPins';
+import { createIdentityBackup, exportKeyPairs, getRestoredEphemeralKeys } from '../utils/identityBackup';
+import { computeSafetyNumber } from '../utils/safetyNumber';
+import { SeenWindow, checkAndRecord, createSeenWindow } from '../utils/replayGuard';
+import { RoomCredentials, deriveRoomCredentials, createMembershipProof, verifyMembershipProof } from '../utils/roomAuth';
+import { buildInviteUrl } from '../utils/inviteLink';
+import { PROTOCOL_VERSION, SUPPORTED_SUITES, checkEnvelopeVersion, describeSuiteMismatch, hasPaddedPayload, hasStructuredContent, negotiateSuite } from '../utils/cipherSuites';
+import { SenderKeyState, createSenderKey, toDistribution, fromDistribution, senderKeyEncrypt, senderKeyDecrypt } from '../utils/senderKeys';
+
+const MAX_RECEIPT_IDS = 500; // Message ids per receipt; longer lists are split on send and cut on receipt
 
 const SIGNALING_SERVER_URL = import.meta.env.VITE_SIGNALING_SERVER_URL || 'https://e2ee-secure-chat-njzy.onrender.com';
 
 import { FileTransferManager, FileTransferState } from '../utils/FileTransferManager';
-import { getKey, storeKey } from '../utils/keyStorage';
+import { getKey, storeKey, deleteKey, getProtectedKeys, storeProtectedKeys, clearProtectedKeys, clearKeys, deleteKeyDatabase } from '../utils/keyStorage';
+import { areReadReceiptsEnabled, getKeyRotationInterval, getLastKeyRotation, getMessageEditWindow, getPaddingPolicy, isEphemeralKeysEnabled, isMetadataStrippingEnabled, setEphemeralKeysEnabled, setLastKeyRotation } from '../utils/securitySettings';
+import { stripMetadata } from '../utils/metadataStripper';
+import { derivePasscodeKey, protectKeyPairs, sealKeyPairs, unlockKeyPairs, toNonExtractable } from '../utils/keyProtection';
 
 interface ChatContextType {
   roomId: string | null;
-  joinRoom: (roomId: string) => Promise<void>;
+  joinRoom: (roomId: string, passphrase?: string) => Promise<void>;
   leaveRoom: () => void;
+  isRoomProtected: boolean;
+  roomJoinError: string | null;
+  createInviteLink: (ttlMs?: number) => string | null;
 
   userIdentity: UserIdentity | null;
   ownKeyPair: KeyPair | null;
@@ -28,7 +52,13 @@ interface ChatContextType {
 
   messages: DecryptedMessage[];
   directMessages: Record<string, DecryptedMessage[]>;
-  sendMessage: (text: string) => Promise<void>;
+  sendMessage: (text: string, replyTo?: string) => Promise<void>;
+  expiryTimer: number; // Disappearing messages timer of the open conversation, 0 when off
+  setExpiryTimer: (expiryMs: number) => Promise<void>;
+  markConversationRead: () => void; // Call while the open conversation is on screen
+  editMessage: (messageId: string, text: string) => Promise<boolean>;
+  deleteMessage: (messageId: string) => Promise<boolean>;
+  toggleReaction: (messageId: string, emoji: string) => Promise<boolean>;
 
   // File Sharing (Legacy Offer/Accept)
   sendFileOffer: (file: File, targetSocketId: string) => void;
@@ -38,7 +68,7 @@ interface ChatContextType {
 
   // New Chunk-based File Transfer
   activeTransfers: Record<string, FileTransferState>;
-  startFileTransfer: (file: File, targetSocketId: string) => Promise<void>;
+  startFileTransfer: (file: File, targetSocketId: string, options?: { keepMetadata?: boolean }) => Promise<void>;
   acceptFileTransfer: (transferId: string) => void;
   declineFileTransfer: (transferId: string) => void;
   cancelTransfer: (transferId: string) => void;
@@ -54,6 +84,8 @@ interface ChatContextType {
   acceptDirectChat: (targetSocketId: string, targetUsername: string) => Promise<void>;
   closeDirectChat: (targetSocketId: string) => void;
   getSafetyNumber: (targetSocketId: string) => Promise<string | null>;
+  verifiedUsers: string[];
+  setPeerVerified: (username: string, verified: boolean) => void;
   fetchServerStats: () => Promise<any>;
   typingUsers: string[];
   sendTyping: (isTyping: boolean) => void;
@@ -63,14 +95,68 @@ interface ChatContextType {
   refreshActiveUsers: () => void;
   chatEnded: boolean;
   resetChatEnded: () => void;
+  keyChangeAlerts: string[]; // Usernames whose verified identity key changed and is not yet confirmed
+  confirmKeyChange: (username: string) => void;
+
+  // Passcode Lock
+  isLocked: boolean;
+  isPasscodeSet: boolean;
+  unlockIdentity: (passcode: string) => Promise<boolean>;
+  enablePasscode: (passcode: string) => Promise<void>;
+  changePasscode: (currentPasscode: string, newPasscode: string) => Promise<boolean>;
+  removePasscode: (currentPasscode: string) => Promise<boolean>;
+  exportIdentity: (passcode: string, backupPassphrase: string) => Promise<string | null>;
+
+  // Panic / Ephemeral Keys
+  panic: () => Promise<void>;
+  isWiped: boolean;
+  isEphemeral: boolean;
+  setEphemeralKeys: (enabled: boolean) => Promise<void>;
+
+  // Identity Key Rotation
+  rotateIdentityKeys: () => Promise<void>;
 }
 
 const ChatContext = createContext<ChatContextType | undefined>(undefined);
 
+const STATUS_RANK: Record<MessageStatus, number> = { sending: 0, failed: 1, relayed: 2, delivered: 3, read: 4 };
+
+// Adds or removes one user's reaction, dropping emoji nobody reacts with anymore
+const applyReaction = (message: DecryptedMessage, emoji: string, username: string, add: boolean): DecryptedMessage => {
+  const reactors = (message.reactions?.[emoji] || []).filter(name => name !== username);
+  if (add) reactors.push(username);
+  const reactions = { ...message.reactions, [emoji]: reactors };
+  if (reactors.length === 0) delete reactions[emoji];
+  return { ...message, reactions: Object.keys(reactions).length > 0 ? reactions : undefined };
+};
+
+// Older envelopes carry the bare text; anything else must be a well-formed MessageContent
+const parseMessageContent = (plaintext: string, structured: boolean): MessageContent | null => {
+  if (!structured) return { text: plaintext };
+  try {
+    const content = JSON.parse(plaintext);
+    if (typeof content?.text !== 'string') return null;
+    return {
+      text: content.text,
+      replyTo: typeof content.replyTo === 'string' ? content.replyTo : undefined,
+      expiryMs: typeof content.expiryMs === 'number' ? content.expiryMs : undefined,
+      expirySetAt: typeof content.expirySetAt === 'number' ? content.expirySetAt : undefined
+    };
+  } catch {
+    return null;
+  }
+};
+
 export const ChatProvider: React.FC<{ children: ReactNode }> = ({ children }) => {
   const [roomId, setRoomId] = useState<string | null>(null);
+  const [isRoomProtected, setIsRoomProtected] = useState(false);
+  const [roomJoinError, setRoomJoinError] = useState<string | null>(null);
   const [userIdentity, setUserIdentity] = useState<UserIdentity | null>(null);
   const [ownKeyPair, setOwnKeyPair] = useState<KeyPair | null>(null);
+  const [isLocked, setIsLocked] = useState(false);
+  const [isPasscodeSet, setIsPasscodeSet] = useState(false);
+  const [isEphemeral, setIsEphemeral] = useState(() => isEphemeralKeysEnabled());
+  const [isWiped, setIsWiped] = useState(false);
   const [activeUsers, setActiveUsers] = useState<UserProfile[]>([]);
 
   // Separate Message Stores
@@ -93,16 +179,21 @@ export const ChatProvider: React.FC<{ children: ReactNode }> = ({ children }) =>
   const [fileOffers, setFileOffers] = useState<Array<{ senderSocketId: string, fileMetadata: any }>>([]);
   const [activeTransfers, setActiveTransfers] = useState<Record<string, FileTransferState>>({});
   const [chatEnded, setChatEnded] = useState(false);
+  const [keyChangeAlerts, setKeyChangeAlerts] = useState<string[]>(() => getPendingKeyChanges());
+  const [verifiedUsers, setVerifiedUsers] = useState<string[]>(() => getVerifiedUsernames());
 
   const socketRef = useRef<Socket | null>(null);
   const sharedSecretsRef = useRef<Map<string, CryptoKey>>(new Map());
 
   const ownKeyPairRef = useRef<KeyPair | null>(null);
+  const ownSigningKeyPairRef = useRef<KeyPair | null>(null);
+  const roomIdRef = useRef<string | null>(null);
   const activeUsersRef = useRef<UserProfile[]>([]);
   const activeChatTargetRef = useRef<string | 'ROOM'>('ROOM');
   const activeChatUsernameRef = useRef<string | null>(null);
   const pendingTargetUserRef = useRef<string | null>(null);
   const activeTransfersRef = useRef<Record<string, FileTransferState>>({});
+  const keyChangeAlertsRef = useRef<string[]>(getPendingKeyChanges());
 
   // Track processed transfers to prevent duplicates (Persistent across renders)
   // Track processed transfers to prevent duplicates (Persistent across renders)
@@ -111,16 +202,65 @@ export const ChatProvider: React.FC<{ children: ReactNode }> = ({ children }) =>
   // Store file chunks outside of React state for performance and stability
   const fileChunksRef = useRef<Map<string, Map<number, ArrayBuffer>>>(new Map());
 
+  // Per-transfer AES-GCM keys and the chain of pending chunk decryptions (keeps chunks ordered)
+  const fileKeysRef = useRef<Map<string, CryptoKey>>(new Map());
+  const chunkDecryptionsRef = useRef<Map<string, Promise<void>>>(new Map());
+
+  // Blob URLs of received files by message id, with the conversation they belong to, so each is revoked exactly once
+  const fileUrlsRef = useRef<Map<string, { url: string, conversation: string }>>(new Map());
+
   useEffect(() => { ownKeyPairRef.current = ownKeyPair; }, [ownKeyPair]);
+  useEffect(() => { roomIdRef.current = roomId; }, [roomId]);
   useEffect(() => { activeUsersRef.current = activeUsers; }, [activeUsers]);
   useEffect(() => { activeChatTargetRef.current = activeChatTarget; }, [activeChatTarget]);
   useEffect(() => { activeChatUsernameRef.current = activeChatUsername; }, [activeChatUsername]);
   useEffect(() => { pendingTargetUserRef.current = pendingTargetUser; }, [pendingTargetUser]);
   useEffect(() => { activeTransfersRef.current = activeTransfers; }, [activeTransfers]);
+  useEffect(() => { keyChangeAlertsRef.current = keyChangeAlerts; }, [keyChangeAlerts]);
+
+  // Disappearing messages timers, keyed by peer username or 'ROOM'. Each side applies the
+  // timer to messages sent after it was set, counted from the sender's timestamp.
+  const [expiryTimers, setExpiryTimers] = useState<Record<string, number>>({});
+  const expiryTimersRef = useRef<Record<string, number>>({});
+  const expiryTimersSetAtRef = useRef<Record<string, number>>({}); // When the applied timer was set, by its setter's clock
+
+  const applyExpiryTimer = (conversation: string, expiryMs: number, setAt: number) => {
+    expiryTimersRef.current = { ...expiryTimersRef.current, [conversation]: expiryMs };
+    expiryTimersSetAtRef.current[conversation] = setAt;
+    setExpiryTimers(expiryTimersRef.current);
+  };
+
+  const currentExpiryTimer = (conversation: string) => ({
+    expiryMs: expiryTimersRef.current[conversation] ?? DEFAULT_MESSAGE_EXPIRY_MS,
+    expirySetAt: expiryTimersSetAtRef.current[conversation] ?? 0
+  });
+
+  const isExpiryTimerOption = (expiryMs: unknown): expiryMs is number => MESSAGE_EXPIRY_TIMER_OPTIONS.some(option => option.value === expiryMs);
+
+  // Messages and file offers carry their sender's timer and when it was set, so members who joined or
+  // reloaded after the expiry-timer control message still pick it up, while a member who never saw a
+  // timer set (setAt 0) or saw an older one cannot roll back a newer timer.
+  const learnExpiryTimer = (conversation: string, expiryMs: unknown, setAt: unknown, options?: { isDirect?: boolean, peerId?: string, peerUsername?: string }) => {
+    if (!isExpiryTimerOption(expiryMs) || typeof setAt !== 'number' || setAt <= (expiryTimersSetAtRef.current[conversation] ?? 0)) return;
+    const known = expiryTimersRef.current[conversation] ?? DEFAULT_MESSAGE_EXPIRY_MS;
+    applyExpiryTimer(conversation, expiryMs, setAt);
+    if (expiryMs !== known) {
+      addSystemMessage(expiryMs > 0 ? `Disappearing messages are set to ${describeExpiryTimer(expiryMs)}.` : "Disappearing messages are off.",
+        SystemMessageType.GENERAL, options);
+    }
+  };
+
+  const expiresAtFor = (conversation: string | undefined, timestamp: number): number | undefined => {
+    const expiryMs = conversation ? (expiryTimersRef.current[conversation] ?? DEFAULT_MESSAGE_EXPIRY_MS) : 0;
+    return expiryMs > 0 ? timestamp + expiryMs : undefined;
+  };
+
+  const isSweepableTransfer = (transfer: FileTransferState) => transfer.expiresAt !== undefined && (transfer.status === 'completed' || transfer.status === 'error');
 
   // Define addSystemMessage FIRST to avoid hoisting issues
-  const addSystemMessage = useCallback((text: string, systemType: SystemMessageType = SystemMessageType.GENERAL, options?: { isDirect?: boolean, peerId?: string, peerUsername?: string }) => {
-    const newMessage = {
+  // `expires`: the notice is conversation content (e.g. a file) and disappears with the timer
+  const addSystemMessage = useCallback((text: string, systemType: SystemMessageType = SystemMessageType.GENERAL, options?: { isDirect?: boolean, peerId?: string, peerUsername?: string, expires?: boolean }) => {
+    const newMessage: DecryptedMessage = {
       id: `sys-${Date.now()}-${Math.random()}`,
       timestamp: Date.now(),
       text,
@@ -149,6 +289,7 @@ export const ChatProvider: React.FC<{ children: ReactNode }> = ({ children }) =>
       }
 
       if (targetUsername) {
+        if (options.expires) newMessage.expiresAt = expiresAtFor(targetUsername, newMessage.timestamp);
         setDirectMessages(prev => ({
           ...prev,
           [targetUsername!]: [...(prev[targetUsername!] || []), newMessage]
@@ -158,11 +299,468 @@ export const ChatProvider: React.FC<{ children: ReactNode }> = ({ children }) =>
         // Fallback to room? Or just drop? Better to drop than leak.
       }
     } else {
+      if (options?.expires) newMessage.expiresAt = expiresAtFor('ROOM', newMessage.timestamp);
       setRoomMessages(prev => [...prev, newMessage]);
     }
   }, []);
 
+  // --- Identity Keys (TOFU pins) ---
+  // Imported signing keys of the identities currently pinned, per username
+  const identityKeysRef = useRef<Map<string, { jwk: JsonWebKey, key: CryptoKey }>>(new Map());
+
+  // A peer's identity changed: warn in every conversation we share and drop all state derived from the old key
+  const handleKeyChange = (user: UserProfile, previousPin: KeyPin) => {
+    const notice = `${user.username}'s identity key has changed. This can mean they reinstalled, or that someone is intercepting the conversation.`;
+    if (ratchetSessionsRef.current.has(user.username) || activeChatUsernameRef.current === user.username) {
+      addSystemMessage(notice, SystemMessageType.KEY_EXCHANGE, { isDirect: true, peerId: user.socketId, peerUsername: user.username });
+    }
+    if (roomMembersRef.current.has(user.socketId)) {
+      addSystemMessage(notice, SystemMessageType.KEY_EXCHANGE);
+    }
+
+    ratchetSessionsRef.current.delete(user.username);
+    peerSenderKeysRef.current.delete(user.username);
+    activeUsersRef.current
+      .filter(u => u.username === user.username)
+      .forEach(u => {
+        sharedSecretsRef.current.delete(u.socketId);
+        senderKeyRecipientsRef.current.delete(u.socketId);
+      });
+    sharedSecretsRef.current.delete(user.socketId);
+    senderKeyRecipientsRef.current.delete(user.socketId);
+
+    // A verified contact must be re-confirmed before we send them anything
+    setVerifiedUsers(getVerifiedUsernames());
+    if (previousPin.verified) {
+      keyChangeAlertsRef.current = [...keyChangeAlertsRef.current.filter(u => u !== user.username), user.username];
+      setKeyChangeAlerts(keyChangeAlertsRef.current);
+    }
+  };
+
+  const pinIdentity = async (user: UserProfile) => {
+    try {
+      const check = checkAndPinKey(user.username, await computeKeyFingerprint(user.publicKey, user.signingKey));
+      if (check.status === 'changed') handleKeyChange(user, check.previous);
+      if (check.status === 'match' && keyChangeAlertsRef.current.includes(user.username)) {
+        // The contact is back on the key we verified
+        keyChangeAlertsRef.current = keyChangeAlertsRef.current.filter(u => u !== user.username);
+        setKeyChangeAlerts(keyChangeAlertsRef.current);
+        setVerifiedUsers(getVerifiedUsernames());
+      }
+
+      const cached = identityKeysRef.current.get(user.username);
+      if (!user.signingKey) {
+        identityKeysRef.current.delete(user.username);
+      } else if (!cached || canonicalJson(cached.jwk) !== canonicalJson(user.signingKey)) {
+        identityKeysRef.current.set(user.username, { jwk: user.signingKey, key: await importSigningPublicKeyJwk(user.signingKey) });
+      }
+    } catch (e) {
+      console.error(`Failed to pin identity of ${user.username}:`, e);
+    }
+  };
+
+  const isAwaitingKeyConfirmation = (username: string | null | undefined): boolean => {
+    return !!username && keyChangeAlertsRef.current.includes(username);
+  };
+
+  const setPeerVerified = (username: string, verified: boolean) => {
+    setPinVerified(username, verified);
+    setVerifiedUsers(getVerifiedUsernames());
+    const peer = activeUsersRef.current.find(u => u.username === username);
+    addSystemMessage(verified ? `You marked ${username} as verified.` : `You removed the verification of ${username}.`, SystemMessageType.KEY_EXCHANGE,
+      peer ? { isDirect: true, peerId: peer.socketId, peerUsername: username } : undefined);
+  };
+
+  const confirmKeyChange = (username: string) => {
+    confirmPendingKey(username);
+    setVerifiedUsers(getVerifiedUsernames());
+    keyChangeAlertsRef.current = keyChangeAlertsRef.current.filter(u => u !== username);
+    setKeyChangeAlerts(keyChangeAlertsRef.current);
+    const peer = activeUsersRef.current.find(u => u.username === username);
+    addSystemMessage(`You accepted the new identity key of ${username}. It is no longer marked as verified.`, SystemMessageType.KEY_EXCHANGE,
+      peer ? { isDirect: true, peerId: peer.socketId, peerUsername: username } : undefined);
+  };
+
+  // Checks that an envelope was signed by the pinned identity of the username it claims, for us
+  const verifySender = async (username: string, envelope: SignableEnvelope, expectedRecipient: string | null | undefined): Promise<boolean> => {
+    if (envelope.senderUsername !== username) return false;
+    if (!expectedRecipient || envelope.recipient !== expectedRecipient) return false;
+
+    let pinned = identityKeysRef.current.get(username);
+    if (!pinned) {
+      // Unknown sender (e.g. a DM from outside the room): pin the key the directory has for them
+      const profile = await findUser(username);
+      if (profile?.username === username) await pinIdentity(profile);
+      pinned = identityKeysRef.current.get(username);
+    }
+    if (!pinned) return false;
+    return verifyEnvelope(envelope, pinned.key);
+  };
+
+  // Ids of the signed envelopes accepted from each sender, for replay detection
+  const seenEnvelopesRef = useRef<Map<string, SeenWindow>>(new Map());
+
+  // Call only after verifySender: the id and timestamp are trustworthy once the signature checks out
+  const acceptFreshEnvelope = (username: string, envelope: { id: string, timestamp: number }, options?: { isDirect?: boolean, peerId?: string, peerUsername?: string }): boolean => {
+    let window = seenEnvelopesRef.current.get(username);
+    if (!window) {
+      window = createSeenWindow();
+      seenEnvelopesRef.current.set(username, window);
+    }
+
+    const verdict = checkAndRecord(window, envelope.id, envelope.timestamp);
+    if (verdict === 'fresh') return true;
+    console.warn(`Rejected ${verdict} envelope ${envelope.id} from ${username}.`);
+    addSystemMessage(verdict === 'duplicate'
+      ? `Rejected a replayed message from ${username}.`
+      : `Rejected an outdated message from ${username} (sent ${new Date(envelope.timestamp).toLocaleString()}).`, SystemMessageType.ERROR, options);
+    return false;
+  };
+
+  // Envelopes without a negotiated suite are stamped with our most preferred one
+  const signOutgoing = async <T extends SignableEnvelope,>(envelope: T): Promise<T> => {
+    if (!ownSigningKeyPairRef.current) throw new Error('Signing key not loaded');
+    return signEnvelope({ version: PROTOCOL_VERSION, suite: SUPPORTED_SUITES[0], ...envelope, senderUsername: userIdentity?.username }, ownSigningKeyPairRef.current.privateKey);
+  };
+
+  // Cipher suite for a conversation with these peers; reports the peers we share none with
+  const selectSuite = (peers: UserProfile[], options?: { isDirect?: boolean, peerId?: string, peerUsername?: string }): string | null => {
+    const suite = negotiateSuite(...peers.map(peer => peer.suites));
+    if (!suite) {
+      peers.filter(peer => !negotiateSuite(peer.suites))
+        .forEach(peer => addSystemMessage(describeSuiteMismatch(peer.username, peer.suites), SystemMessageType.ERROR, options));
+    }
+    return suite;
+  };
+
+  // Call after verifySender: envelopes from newer clients are reported instead of failing to decrypt
+  const acceptEnvelopeVersion = (username: string, envelope: { version?: number, suite?: string }, options?: { isDirect?: boolean, peerId?: string, peerUsername?: string }): boolean => {
+    const unsupported = checkEnvelopeVersion(envelope);
+    if (!unsupported) return true;
+    console.warn(`Rejected envelope from ${username}: ${unsupported}.`);
+    addSystemMessage(`Cannot read a message from ${username}: ${unsupported}. Update this client to read it.`, SystemMessageType.ERROR, options);
+    return false;
+  };
+
+  const getOwnSigningKeyJwk = async (): Promise<JsonWebKey | undefined> => {
+    return ownSigningKeyPairRef.current ? exportPublicKeyJwk(ownSigningKeyPairRef.current.publicKey) : undefined;
+  };
+
+  // --- Double Ratchet Sessions (keyed by peer username, not socket id) ---
+  const ratchetSessionsRef = useRef<Map<string, RatchetSession>>(new Map());
+  const sessionQueuesRef = useRef<Map<string, Promise<unknown>>>(new Map());
+  const sessionResyncsRef = useRef<Map<string, number>>(new Map()); // username -> last automatic restart
+
+  // Serializes operations on one session (ratchet peer, sender key) so concurrent sends/receives cannot fork the state
+  const withSessionLock = <T,>(lockKey: string, operation: () => Promise<T>): Promise<T> => {
+    const previous = sessionQueuesRef.current.get(lockKey) || Promise.resolve();
+    const result = previous.catch(() => undefined).then(operation);
+    sessionQueuesRef.current.set(lockKey, result);
+    return result;
+  };
+
+  // Returns the session for a peer, starting a new X3DH handshake if there is none yet
+  const getOrInitiateSession = async (peerUsername: string, peerPublicKey?: JsonWebKey): Promise<RatchetSession | null> => {
+    const existing = ratchetSessionsRef.current.get(peerUsername);
+    if (existing) return existing;
+    if (!ownKeyPairRef.current || !peerPublicKey) return null;
+
+    const session = await initiateSession(ownKeyPairRef.current, peerPublicKey, peerUsername);
+    ratchetSessionsRef.current.set(peerUsername, session);
+    return session;
+  };
+
+  // Adopts the session offered by a peer's handshake. If both sides initiated at the same time,
+  // the handshake from the lexicographically smaller username wins so both converge.
+  const acceptHandshake = async (peerUsername: string, handshake: X3DHHandshake, options?: { force?: boolean }): Promise<void> => {
+    const existing = ratchetSessionsRef.current.get(peerUsername);
+    if (existing?.handshakeId === handshakeId(handshake)) return;
+    if (!options?.force && existing?.pendingHandshake && userIdentity && userIdentity.username < peerUsername) return;
+    if (!ownKeyPairRef.current) return;
+
+    const session = await respondToSession(ownKeyPairRef.current, handshake, peerUsername);
+    ratchetSessionsRef.current.set(peerUsername, session);
+  };
+
+  // `resync`: the request only restarts the session of an existing chat and is not shown as a new chat request
+  const sendDirectChatRequest = async (user: UserProfile, options?: { resync?: boolean }) => {
+    if (!selectSuite([user], { isDirect: true, peerId: user.socketId, peerUsername: user.username })) return;
+    const session = await withSessionLock(user.username, () => getOrInitiateSession(user.username, user.publicKey));
+    const handshake = session?.pendingHandshake
+      ? await signOutgoing<SignedHandshake>({
+        handshake: session.pendingHandshake,
+        senderUsername: userIdentity?.username || '',
+        recipient: user.username,
+        timestamp: Date.now()
+      })
+      : undefined;
+    socketRef.current?.emit('direct-chat-request', {
+      targetUsername: user.username,
+      senderUsername: userIdentity?.username,
+      handshake,
+      resync: options?.resync
+    });
+  };
+
+  // A peer that reloaded has lost its ratchet state (or we lost ours): both sides move to a fresh handshake
+  const resyncSession = async (peer: UserProfile): Promise<boolean> => {
+    const lastResync = sessionResyncsRef.current.get(peer.username) || 0;
+    if (!peer.publicKey || Date.now() - lastResync < SESSION_RESYNC_COOLDOWN_MS) return false;
+    sessionResyncsRef.current.set(peer.username, Date.now());
+
+    await withSessionLock(peer.username, async () => { ratchetSessionsRef.current.delete(peer.username); });
+    await sendDirectChatRequest(peer, { resync: true });
+    return true;
+  };
+
+  const decryptDirectMessage = async (senderSocketId: string, senderUsername: string | undefined, payload: EncryptedTextMessage): Promise<string | null> => {
+    const senderProfile = activeUsersRef.current.find(u => u.socketId === senderSocketId);
+    const peerUsername = senderProfile?.username || senderUsername;
+    if (!peerUsername || !payload.ratchetHeader) {
+      console.warn(`Dropping direct message from ${senderSocketId} without a ratchet header.`);
+      return null;
+    }
+
+    const plaintext = await withSessionLock(peerUsername, async () => {
+      if (payload.handshake) await acceptHandshake(peerUsername, payload.handshake);
+      const session = ratchetSessionsRef.current.get(peerUsername);
+      if (!session) return null;
+
+      const result = await ratchetDecrypt(session, payload.ratchetHeader!, payload.encryptedDataB64, payload.ivB64, encodeMessageAad(payload), hasPaddedPayload(payload), payload.suite);
+      if (!result) return null;
+      ratchetSessionsRef.current.set(peerUsername, result.session);
+      return result.plaintext;
+    });
+
+    if (plaintext === null) {
+      const restarted = senderProfile && await resyncSession(senderProfile).catch(e => {
+        console.error(`Failed to restart the session with ${peerUsername}:`, e);
+        return false;
+      });
+      addSystemMessage(restarted
+        ? `Could not decrypt a message from ${peerUsername}. The secure session was restarted; ask them to send it again.`
+        : `Could not decrypt a message from ${peerUsername}. The secure session may be out of sync.`, SystemMessageType.ERROR, { isDirect: true, peerId: senderSocketId, peerUsername });
+    }
+    return plaintext;
+  };
+
+  // --- Sender Keys for the current room ---
+  const roomMembersRef = useRef<Map<string, UserProfile>>(new Map()); // socketId -> member
+  const ownSenderKeyRef = useRef<SenderKeyState | null>(null);
+  const senderKeyRecipientsRef = useRef<Set<string>>(new Set()); // socketIds holding our current sender key
+  const peerSenderKeysRef = useRef<Map<string, SenderKeyState>>(new Map()); // username -> their sender key
+
+  // Seals our current sender key to every room member that lacks it, relayed as one event. Call under the 'room:self' lock.
+  const distributeSenderKey = async () => {
+    const ownSenderKey = ownSenderKeyRef.current;
+    const currentKeyPair = ownKeyPairRef.current;
+    if (!ownSenderKey || !currentKeyPair || !socketRef.current) return;
+
+    const publicKeyString = JSON.stringify(await exportPublicKeyJwk(currentKeyPair.publicKey));
+    const distribution = JSON.stringify(toDistribution(ownSenderKey));
+    const distributions: Array<{ targetSocketId: string, targetUsername: string, payload: SenderKeyDistributionMessage }> = [];
+
+    for (const member of roomMembersRef.current.values()) {
+      if (senderKeyRecipientsRef.current.has(member.socketId)) continue;
+      if (isAwaitingKeyConfirmation(member.username)) continue;
+      if (!isMemberAuthorized(member.socketId)) continue;
+      const suite = selectSuite([member]);
+      if (!suite) continue;
+
+      let secret = sharedSecretsRef.current.get(member.socketId);
+      // Self-Healing: If secret is missing, try to derive it now
+      if (!secret && member.publicKey) {
+        try {
+          secret = await deriveSharedSecret(currentKeyPair.privateKey, await importPublicKeyJwk(member.publicKey));
+          sharedSecretsRef.current.set(member.socketId, secret);
+        } catch (err) {
+          console.error(`[Self-Heal] Failed to derive secret for ${member.username}:`, err);
+        }
+      }
+      if (!secret) continue;
+
+      const envelope = {
+        id: `skd-${Date.now()}-${Math.random().toString(36).substr(2, 9)}`,
+        timestamp: Date.now(),
+        type: MessageType.SENDER_KEY_DISTRIBUTION as const,
+        version: PROTOCOL_VERSION,
+        suite,
+        senderPublicKeyJwkString: publicKeyString,
+        senderUsername: userIdentity?.username,
+        recipient: member.username
+      };
+      const key = await deriveContextKey(secret, { context: `room:${roomIdRef.current}`, sender: userIdentity?.username || '', recipient: member.username });
+      const encrypted = await encryptText(distribution, key, encodeMessageAad(envelope), getPaddingPolicy(), suite);
+      if (!encrypted) continue;
+
+      distributions.push({
+        targetSocketId: member.socketId,
+        targetUsername: member.username,
+        payload: await signOutgoing<SenderKeyDistributionMessage>({
+          ...envelope,
+          encryptedDataB64: encrypted.encryptedDataB64,
+          ivB64: encrypted.ivB64
+        })
+      });
+      senderKeyRecipientsRef.current.add(member.socketId);
+    }
+
+    if (distributions.length > 0) {
+      socketRef.current.emit('distribute-sender-key', { distributions, senderUsername: userIdentity?.username });
+    }
+  };
+
+  const shareSenderKey = () => withSessionLock('room:self', distributeSenderKey);
+
+  // Replaces our sender key so members who left cannot read anything sent afterwards
+  const rotateSenderKey = () => withSessionLock('room:self', async () => {
+    ownSenderKeyRef.current = createSenderKey();
+    senderKeyRecipientsRef.current = new Set();
+    await distributeSenderKey();
+  });
+
+  const resetRoomKeys = (ownSenderKey: SenderKeyState | null) => {
+    roomMembersRef.current = new Map();
+    peerSenderKeysRef.current = new Map();
+    senderKeyRecipientsRef.current = new Set();
+    ownSenderKeyRef.current = ownSenderKey;
+    authenticatedMembersRef.current = new Set();
+    proofsSentRef.current = new Set();
+  };
+
+  // --- Passphrase-Protected Rooms ---
+  const roomCredentialsRef = useRef<RoomCredentials | null>(null);
+  const roomPassphraseRef = useRef<string | null>(null); // Kept in memory only, to build invite links
+  const authenticatedMembersRef = useRef<Set<string>>(new Set()); // socketIds that proved the passphrase to us
+  const proofsSentRef = useRef<Set<string>>(new Set());           // socketIds we proved it to
+
+  // Open rooms trust every member; protected rooms only those who proved the passphrase
+  const isMemberAuthorized = (socketId: string): boolean => {
+    return !roomCredentialsRef.current || authenticatedMembersRef.current.has(socketId);
+  };
+
+  // Proves the room passphrase to every member that has not received our proof yet
+  const sendMembershipProofs = async () => {
+    const credentials = roomCredentialsRef.current;
+    const currentKeyPair = ownKeyPairRef.current;
+    if (!credentials || !currentKeyPair || !userIdentity || !socketRef.current) return;
+
+    const publicKeyJwk = await exportPublicKeyJwk(currentKeyPair.publicKey);
+    const ownIdentity = await computeKeyFingerprint(publicKeyJwk, await getOwnSigningKeyJwk());
+
+    for (const member of roomMembersRef.current.values()) {
+      if (proofsSentRef.current.has(member.socketId)) continue;
+      proofsSentRef.current.add(member.socketId);
+
+      const proofB64 = await createMembershipProof(credentials, {
+        roomId: credentials.roomId,
+        prover: userIdentity.username,
+        verifier: member.username,
+        proverIdentity: ownIdentity
+      });
+      const payload = await signOutgoing<RoomAuthMessage>({
+        id: `auth-${Date.now()}-${Math.random().toString(36).substr(2, 9)}`,
+        timestamp: Date.now(),
+        type: MessageType.ROOM_AUTH,
+        senderPublicKeyJwkString: JSON.stringify(publicKeyJwk),
+        recipient: member.username,
+        proofB64
+      });
+      socketRef.current.emit('room-auth', { targetSocketId: member.socketId, payload });
+    }
+  };
+
+  const handleMembershipProof = async (senderSocketId: string, payload: RoomAuthMessage) => {
+    const credentials = roomCredentialsRef.current;
+    const member = roomMembersRef.current.get(senderSocketId);
+    if (!credentials || !member || !userIdentity || payload?.type !== MessageType.ROOM_AUTH) return;
+    if (!(await verifySender(member.username, payload, userIdentity.username))) return;
+    if (!acceptFreshEnvelope(member.username, payload)) return;
+
+    const isValid = await verifyMembershipProof(credentials, {
+      roomId: credentials.roomId,
+      prover: member.username,
+      verifier: userIdentity.username,
+      proverIdentity: await computeKeyFingerprint(member.publicKey, member.signingKey)
+    }, payload.proofB64);
+    if (!isValid) {
+      addSystemMessage(`${member.username} could not prove the room passphrase. They will not receive room keys.`, SystemMessageType.ERROR);
+      return;
+    }
+    if (authenticatedMembersRef.current.has(senderSocketId)) return;
+
+    authenticatedMembersRef.current.add(senderSocketId);
+    addSystemMessage(`${member.username} proved the room passphrase.`, SystemMessageType.KEY_EXCHANGE);
+    await sendMembershipProofs();
+    shareSenderKey();
+  };
+
+  // Room receipts only ever carry a receipt; anything else on this channel is dropped
+  const openRoomReceipt = async (senderUsername: string, payload: RoomReceiptMessage, secret: CryptoKey): Promise<string | null> => {
+    const key = await deriveContextKey(secret, { context: `room-receipt:${roomIdRef.current}`, sender: senderUsername, recipient: userIdentity?.username || '' });
+    const decrypted = await decryptText(payload.encryptedDataB64, payload.ivB64, key, encodeMessageAad(payload), hasPaddedPayload(payload), payload.suite);
+    try {
+      if (!decrypted || JSON.parse(decrypted)?.kind !== 'receipt') throw new Error('Not a receipt');
+      return decrypted;
+    } catch (e) {
+      console.error(`Rejected room receipt from ${senderUsername}:`, e);
+      return null;
+    }
+  };
+
+  const storeSenderKeyDistribution = async (senderUsername: string, payload: SenderKeyDistributionMessage, secret: CryptoKey) => {
+    const key = await deriveContextKey(secret, { context: `room:${roomIdRef.current}`, sender: senderUsername, recipient: userIdentity?.username || '' });
+    const decrypted = await decryptText(payload.encryptedDataB64, payload.ivB64, key, encodeMessageAad(payload), hasPaddedPayload(payload), payload.suite);
+    if (!decrypted) {
+      console.error(`Rejected sender key from ${senderUsername}: decryption failed.`);
+      return;
+    }
+    try {
+      const distribution: SenderKeyDistribution = JSON.parse(decrypted);
+      peerSenderKeysRef.current.set(senderUsername, fromDistribution(distribution));
+    } catch (e) {
+      console.error(`Rejected malformed sender key from ${senderUsername}:`, e);
+    }
+  };
+
+  const decryptRoomMessage = async (senderSocketId: string, senderUsername: string, payload: EncryptedTextMessage): Promise<string | null> => {
+    const senderKey = peerSenderKeysRef.current.get(senderUsername);
+    if (!senderKey || senderKey.keyId !== payload.senderKeyId || payload.senderKeyIteration === undefined) {
+      addSystemMessage(`Could not decrypt a room message from ${senderUsername}: sender key missing.`, SystemMessageType.ERROR);
+      return null;
+    }
+
+    const result = await senderKeyDecrypt(senderKey, payload.senderKeyIteration, payload.encryptedDataB64, payload.ivB64, encodeMessageAad(payload), hasPaddedPayload(payload), payload.suite);
+    if (!result) {
+      console.error(`Room message from ${senderUsername} (${senderSocketId}) failed to decrypt.`);
+      return null;
+    }
+    peerSenderKeysRef.current.set(senderUsername, result.state);
+    return result.plaintext;
+  };
+
   useEffect(() => {
+    // Older versions stored extractable private keys; replace them with non-extractable copies
+    const sealStoredPrivateKey = async (keyName: string, privateKey: CryptoKey): Promise<CryptoKey> => {
+      if (!privateKey.extractable) return privateKey;
+      const sealed = await toNonExtractable(privateKey);
+      await storeKey(keyName, sealed);
+      return sealed;
+    };
+
+    // The signing key pair lives next to the ECDH pair; identities from older versions get one on first load
+    const loadSigningKeyPair = async (): Promise<KeyPair> => {
+      const storedPublicKey = await getKey('signingPublicKey');
+      const storedPrivateKey = await getKey('signingPrivateKey');
+      if (storedPublicKey && storedPrivateKey) {
+        return { publicKey: storedPublicKey, privateKey: await sealStoredPrivateKey('signingPrivateKey', storedPrivateKey) };
+      }
+      const keys = await generateSigningKeyPair();
+      await storeKey('signingPublicKey', keys.publicKey);
+      await storeKey('signingPrivateKey', keys.privateKey);
+      return keys;
+    };
+
     const initIdentityAndKeys = async () => {
       let identity = getStoredIdentity();
       if (!identity) {
@@ -174,13 +772,39 @@ export const ChatProvider: React.FC<{ children: ReactNode }> = ({ children }) =>
       setCryptoStatusMessage("Loading identity keys...");
 
       try {
+        // Ephemeral mode: fresh keys for every session, never written to IndexedDB
+        if (isEphemeralKeysEnabled()) {
+          const restored = getRestoredEphemeralKeys();
+          if (restored) {
+            ownSigningKeyPairRef.current = restored.signing;
+            setOwnKeyPair(restored.identity);
+            setCryptoStatusMessage("Ready (Restored, Ephemeral).");
+            return;
+          }
+          setCryptoStatusMessage("Generating ephemeral identity keys...");
+          ownSigningKeyPairRef.current = await generateSigningKeyPair();
+          setOwnKeyPair(await generateAppKeyPair());
+          setCryptoStatusMessage("Ready (Ephemeral).");
+          return;
+        }
+
+        // Passcode-protected keys stay sealed until unlockIdentity succeeds
+        if (await getProtectedKeys()) {
+          setIsPasscodeSet(true);
+          setIsLocked(true);
+          setCryptoStatusMessage("Locked.");
+          return;
+        }
+
         // Try to load existing keys from IndexedDB
         const storedPublicKey = await getKey('publicKey');
         const storedPrivateKey = await getKey('privateKey');
 
-        if (storedPublicKey && storedPrivateKey) {
+        // Keys from older versions lack deriveBits, which the ratchet handshake needs
+        if (storedPublicKey && storedPrivateKey && storedPrivateKey.usages.includes('deriveBits')) {
 
-          setOwnKeyPair({ publicKey: storedPublicKey, privateKey: storedPrivateKey });
+          ownSigningKeyPairRef.current = await loadSigningKeyPair();
+          setOwnKeyPair({ publicKey: storedPublicKey, privateKey: await sealStoredPrivateKey('privateKey', storedPrivateKey) });
           setCryptoStatusMessage("Ready (Restored).");
         } else {
           // Generate new keys if not found
@@ -191,6 +815,7 @@ export const ChatProvider: React.FC<{ children: ReactNode }> = ({ children }) =>
           // Store new keys
           await storeKey('publicKey', keys.publicKey);
           await storeKey('privateKey', keys.privateKey);
+          ownSigningKeyPairRef.current = await loadSigningKeyPair();
 
           setOwnKeyPair(keys);
           setCryptoStatusMessage("Ready (New).");
@@ -203,6 +828,326 @@ export const ChatProvider: React.FC<{ children: ReactNode }> = ({ children }) =>
     initIdentityAndKeys();
   }, []);
 
+  // --- Passcode Lock ---
+  const passcodeKeyRef = useRef<CryptoKey | null>(null); // Wrapping key of the unlocked record, for sealing rotated keys
+
+  const loadPublicKeys = async () => {
+    const identity = await getKey('publicKey');
+    const signing = await getKey('signingPublicKey');
+    return identity && signing ? { identity, signing } : null;
+  };
+
+  const unlockIdentity = async (passcode: string): Promise<boolean> => {
+    const record = await getProtectedKeys();
+    const publicKeys = await loadPublicKeys();
+    if (!record || !publicKeys) return false;
+
+    setCryptoStatusMessage("Unlocking identity keys...");
+    const keys = await unlockKeyPairs(record, passcode, publicKeys);
+    if (!keys) {
+      setCryptoStatusMessage("Locked.");
+      return false;
+    }
+
+    passcodeKeyRef.current = keys.wrappingKey;
+    ownSigningKeyPairRef.current = keys.signing;
+    setOwnKeyPair(keys.identity);
+    setIsLocked(false);
+    setCryptoStatusMessage("Ready (Unlocked).");
+    return true;
+  };
+
+  // Non-extractable keys cannot be wrapped, so setting a passcode starts new identity keys.
+  // They go out as a signed key update, so contacts move their pins instead of seeing a key change.
+  const enablePasscode = async (passcode: string): Promise<void> => {
+    if (!socketRef.current || !ownKeyPairRef.current || !ownSigningKeyPairRef.current) throw new Error('Not connected');
+    await rotateIdentityKeys({ passcode });
+  };
+
+  const changePasscode = async (currentPasscode: string, newPasscode: string): Promise<boolean> => {
+    const record = await getProtectedKeys();
+    const publicKeys = await loadPublicKeys();
+    if (!record || !publicKeys) return false;
+
+    // Extractable only for the moment it takes to seal them again
+    const keys = await unlockKeyPairs(record, currentPasscode, publicKeys, true);
+    if (!keys) return false;
+    const newRecord = await protectKeyPairs(newPasscode, keys);
+    await storeProtectedKeys(newRecord);
+    passcodeKeyRef.current = await derivePasscodeKey(newPasscode, newRecord.saltB64, newRecord.iterations);
+    return true;
+  };
+
+  const removePasscode = async (currentPasscode: string): Promise<boolean> => {
+    const record = await getProtectedKeys();
+    const publicKeys = await loadPublicKeys();
+    if (!record || !publicKeys) return false;
+
+    const keys = await unlockKeyPairs(record, currentPasscode, publicKeys);
+    if (!keys) return false;
+    await storeKey('privateKey', keys.identity.privateKey);
+    await storeKey('signingPrivateKey', keys.signing.privateKey);
+    await clearProtectedKeys();
+    passcodeKeyRef.current = null;
+    setIsPasscodeSet(false);
+    return true;
+  };
+
+  // Only passcode-protected keys can leave the browser: the passcode unwraps an extractable copy
+  const exportIdentity = async (passcode: string, backupPassphrase: string): Promise<string | null> => {
+    const record = await getProtectedKeys();
+    const publicKeys = await loadPublicKeys();
+    if (!userIdentity || !record || !publicKeys) return null;
+
+    const keys = await unlockKeyPairs(record, passcode, publicKeys, true);
+    if (!keys) return null;
+    return await createIdentityBackup({
+      identity: userIdentity,
+      keys: await exportKeyPairs(keys.identity, keys.signing),
+      pins: getAllPins(),
+      exportedAt: Date.now()
+    }, backupPassphrase);
+  };
+
+  const setEphemeralKeys = async (enabled: boolean): Promise<void> => {
+    setEphemeralKeysEnabled(enabled);
+    setIsEphemeral(enabled);
+
+    if (enabled) {
+      // Keep using the keys in memory, but remove every copy on disk (sealed ones included)
+      await clearKeys();
+      passcodeKeyRef.current = null;
+      setIsPasscodeSet(false);
+      return;
+    }
+
+    // Persist the current session's keys so the identity survives the next reload
+    const currentKeyPair = ownKeyPairRef.current;
+    const currentSigningKeyPair = ownSigningKeyPairRef.current;
+    if (currentKeyPair && currentSigningKeyPair) {
+      await storeKey('publicKey', currentKeyPair.publicKey);
+      await storeKey('privateKey', currentKeyPair.privateKey);
+      await storeKey('signingPublicKey', currentSigningKeyPair.publicKey);
+      await storeKey('signingPrivateKey', currentSigningKeyPair.privateKey);
+    }
+  };
+
+  // --- Identity Key Rotation ---
+  // Both key pairs are replaced; online contacts receive the new keys signed with the old ones,
+  // so their pins move along without a key-change warning. Offline contacts see a regular key change.
+  // With a passcode, the new keys are sealed under it in a new protected record (see enablePasscode).
+  const rotateIdentityKeys = async (options?: { passcode?: string }): Promise<void> => {
+    const socket = socketRef.current;
+    const oldKeyPair = ownKeyPairRef.current;
+    if (!socket || !oldKeyPair || !ownSigningKeyPairRef.current || !userIdentity) return;
+    const isEphemeralSession = isEphemeralKeysEnabled() && !options?.passcode;
+    const sealed = !!options?.passcode || (!isEphemeralSession && isPasscodeSet);
+    if (sealed && !options?.passcode && !passcodeKeyRef.current) return;
+
+    setCryptoStatusMessage("Rotating identity keys...");
+    const identity = await generateAppKeyPair(sealed);
+    const signing = await generateSigningKeyPair(sealed);
+    const newPublicKey = await exportPublicKeyJwk(identity.publicKey);
+    const newSigningKey = await exportPublicKeyJwk(signing.publicKey);
+    const oldPublicKeyString = JSON.stringify(await exportPublicKeyJwk(oldKeyPair.publicKey));
+
+    // Everyone we currently share a conversation with
+    const peers = new Map<string, string>(); // username -> socketId
+    roomMembersRef.current.forEach(member => peers.set(member.username, member.socketId));
+    ratchetSessionsRef.current.forEach((_, username) => {
+      const peer = activeUsersRef.current.find(u => u.username === username && u.isOnline !== false);
+      if (peer) peers.set(username, peer.socketId);
+    });
+    const updates = await Promise.all(Array.from(peers, async ([username, socketId]) => ({
+      socketId,
+      payload: await signOutgoing<KeyUpdateMessage>({
+        id: `keyupdate-${Date.now()}-${Math.random().toString(36).substr(2, 9)}`,
+        timestamp: Date.now(),
+        type: MessageType.KEY_UPDATE,
+        senderPublicKeyJwkString: oldPublicKeyString,
+        recipient: username,
+        newPublicKey,
+        newSigningKey
+      })
+    })));
+
+    // Persist before announcing, so a reload cannot fall back to the retired keys
+    if (options?.passcode) {
+      const record = await protectKeyPairs(options.passcode, { identity, signing });
+      await storeProtectedKeys(record);
+      await deleteKey('privateKey');
+      await deleteKey('signingPrivateKey');
+      passcodeKeyRef.current = await derivePasscodeKey(options.passcode, record.saltB64, record.iterations);
+      setIsPasscodeSet(true);
+      identity.privateKey = await toNonExtractable(identity.privateKey);
+      signing.privateKey = await toNonExtractable(signing.privateKey);
+    } else if (sealed) {
+      const record = await getProtectedKeys();
+      if (!record) return;
+      await storeProtectedKeys(await sealKeyPairs(record, passcodeKeyRef.current!, { identity, signing }));
+      identity.privateKey = await toNonExtractable(identity.privateKey);
+      signing.privateKey = await toNonExtractable(signing.privateKey);
+    } else if (!isEphemeralSession) {
+      await storeKey('privateKey', identity.privateKey);
+      await storeKey('signingPrivateKey', signing.privateKey);
+    }
+    if (!isEphemeralSession) {
+      await storeKey('publicKey', identity.publicKey);
+      await storeKey('signingPublicKey', signing.publicKey);
+    }
+
+    updates.forEach(({ socketId, payload }) => {
+      socket.emit('send-message', { targetSocketId: socketId, payload, senderUsername: userIdentity.username });
+    });
+    socket.emit('register-user', { username: userIdentity.username, publicKey: newPublicKey, signingKey: newSigningKey, suites: SUPPORTED_SUITES });
+
+    ownKeyPairRef.current = identity;
+    ownSigningKeyPairRef.current = signing;
+    setOwnKeyPair(identity);
+    setLastKeyRotation(Date.now());
+
+    // Re-key: pairwise secrets follow the new key, ratchet sessions restart with a fresh handshake
+    ratchetSessionsRef.current.clear();
+    sharedSecretsRef.current.clear();
+    for (const user of [...roomMembersRef.current.values(), ...activeUsersRef.current]) {
+      if (sharedSecretsRef.current.has(user.socketId)) continue;
+      try {
+        sharedSecretsRef.current.set(user.socketId, await deriveSharedSecret(identity.privateKey, await importPublicKeyJwk(user.publicKey)));
+      } catch (e) { console.error("Key derivation error:", e); }
+    }
+
+    addSystemMessage(`Your identity key was rotated. ${peers.size} online contact${peers.size === 1 ? '' : 's'} received the new key.`, SystemMessageType.KEY_EXCHANGE);
+    setCryptoStatusMessage("Ready (Keys Rotated).");
+  };
+
+  // A contact rotated their identity keys; only accepted when signed by the keys we have pinned for them
+  const handleKeyUpdate = async (senderSocketId: string, payload: KeyUpdateMessage) => {
+    const username = payload.senderUsername;
+    const ownKeys = ownKeyPairRef.current;
+    if (!username || !ownKeys || !userIdentity || !identityKeysRef.current.has(username)) return;
+    if (!(await verifySender(username, payload, userIdentity.username))) {
+      addSystemMessage(`Ignored a key update claiming to be from ${username}: invalid signature.`, SystemMessageType.ERROR);
+      return;
+    }
+    if (!acceptFreshEnvelope(username, payload)) return;
+    if (!acceptEnvelopeVersion(username, payload)) return;
+
+    try {
+      const newIdentityKey = await importPublicKeyJwk(payload.newPublicKey);
+      rotatePin(username, await computeKeyFingerprint(payload.newPublicKey, payload.newSigningKey));
+      identityKeysRef.current.set(username, { jwk: payload.newSigningKey, key: await importSigningPublicKeyJwk(payload.newSigningKey) });
+
+      // Re-key: secrets and sessions derived from the retired key are replaced
+      const secret = await deriveSharedSecret(ownKeys.privateKey, newIdentityKey);
+      const rotate = (user: UserProfile): UserProfile => ({ ...user, publicKey: payload.newPublicKey, signingKey: payload.newSigningKey });
+      ratchetSessionsRef.current.delete(username);
+      activeUsersRef.current = activeUsersRef.current.map(u => u.username === username ? rotate(u) : u);
+      activeUsersRef.current.filter(u => u.username === username).forEach(u => sharedSecretsRef.current.set(u.socketId, secret));
+      sharedSecretsRef.current.set(senderSocketId, secret);
+      const member = roomMembersRef.current.get(senderSocketId);
+      if (member) roomMembersRef.current.set(senderSocketId, rotate(member));
+      setActiveUsers(prev => prev.map(u => u.username === username ? rotate(u) : u));
+    } catch (e) {
+      console.error(`Failed to apply key update from ${username}:`, e);
+      return;
+    }
+
+    const notice = `${username} rotated their identity key. The new key was signed with the old one.`;
+    if (activeChatUsernameRef.current === username || activeUsersRef.current.some(u => u.username === username && u.socketId === senderSocketId && !roomMembersRef.current.has(senderSocketId))) {
+      addSystemMessage(notice, SystemMessageType.KEY_EXCHANGE, { isDirect: true, peerId: senderSocketId, peerUsername: username });
+    }
+    if (roomMembersRef.current.has(senderSocketId)) {
+      addSystemMessage(notice, SystemMessageType.KEY_EXCHANGE);
+    }
+  };
+
+  // Scheduled rotation, checked once a minute while keys are loaded
+  useEffect(() => {
+    if (!ownKeyPair) return;
+    const interval = setInterval(() => {
+      const rotationInterval = getKeyRotationInterval();
+      if (rotationInterval > 0 && Date.now() - getLastKeyRotation() >= rotationInterval && socketRef.current?.connected) {
+        rotateIdentityKeys().catch(e => console.error("Key rotation failed:", e));
+      }
+    }, 60000);
+    return () => clearInterval(interval);
+  }, [ownKeyPair, userIdentity, isPasscodeSet]);
+
+  // --- Panic ---
+  const panic = async (): Promise<void> => {
+    setIsWiped(true); // Blank screen first; the wipe runs behind it
+
+    const socket = socketRef.current;
+    socketRef.current = null;
+    if (socket) {
+      // Direct-chat peers get an explicit end; leaving the room notifies its members
+      for (const username of ratchetSessionsRef.current.keys()) {
+        const peer = activeUsersRef.current.find(u => u.username === username);
+        if (peer) socket.emit('end-direct-chat', { targetSocketId: peer.socketId });
+      }
+      if (roomIdRef.current) socket.emit('leave-room');
+      socket.disconnect();
+    }
+
+    // Raw key bytes and buffers are zeroed; CryptoKey objects cannot be overwritten, only released
+    const zero = (bytes: ArrayBuffer | Uint8Array) => {
+      try {
+        (bytes instanceof Uint8Array ? bytes : new Uint8Array(bytes)).fill(0);
+      } catch {
+        // Buffer already transferred or detached
+      }
+    };
+    ratchetSessionsRef.current.forEach(session => {
+      [session.rootKey, session.sendChainKey, session.recvChainKey, ...session.skippedKeys.values()].forEach(key => key && zero(key));
+    });
+    [ownSenderKeyRef.current, ...peerSenderKeysRef.current.values()].forEach(senderKey => {
+      if (senderKey) [senderKey.chainKey, ...senderKey.skippedKeys.values()].forEach(zero);
+    });
+    fileChunksRef.current.forEach(chunks => chunks.forEach(zero));
+    const pendingUploads: Map<string, ArrayBuffer[]> | undefined = (window as any).pendingFileChunks;
+    pendingUploads?.forEach(chunks => chunks.forEach(zero));
+    pendingUploads?.clear();
+    Object.values(activeTransfersRef.current).forEach(transfer => transfer.data && zero(transfer.data));
+
+    sharedSecretsRef.current.clear();
+    fileKeysRef.current.clear();
+    fileChunksRef.current.clear();
+    ratchetSessionsRef.current.clear();
+    identityKeysRef.current.clear();
+    resetRoomKeys(null);
+    roomCredentialsRef.current = null;
+    roomPassphraseRef.current = null;
+    passcodeKeyRef.current = null;
+    ownKeyPairRef.current = null;
+    ownSigningKeyPairRef.current = null;
+    activeTransfersRef.current = {};
+    expiryTimersRef.current = {};
+    expiryTimersSetAtRef.current = {};
+    awaitingReceiptsRef.current.clear();
+    readReceiptsSentRef.current.clear();
+    pendingReceiptsRef.current.clear();
+
+    setOwnKeyPair(null);
+    setRoomId(null);
+    setRoomMessages([]);
+    setDirectMessages({});
+    setActiveTransfers({});
+    setExpiryTimers({});
+    setActiveUsers([]);
+
+    clearIdentity();
+    sessionStorage.clear();
+    localStorage.clear();
+    window.history.replaceState(null, '', '/');
+    try {
+      await clearKeys();
+    } catch (e) {
+      console.error("Failed to clear key store:", e);
+    }
+    // Deletion waits for other tabs to let go of the database
+    deleteKeyDatabase().catch(e => console.error("Failed to delete key database:", e));
+  };
+
   const refreshActiveUsers = useCallback(() => {
     if (socketRef.current && roomId && roomId !== 'Direct Chat') {
       socketRef.current.emit('get-room-users');
@@ -244,8 +1189,9 @@ export const ChatProvider: React.FC<{ children: ReactNode }> = ({ children }) =>
   const findUser = async (username: string): Promise<UserProfile | null> => {
     if (!socketRef.current) return null;
     return new Promise((resolve) => {
-      socketRef.current?.emit('find-user', username, (response: { found: boolean, user?: UserProfile }) => {
-        if (response.found && response.user) {
+      // Senders wait on this lookup inside their session lock, so a missing answer must not hold it forever
+      socketRef.current?.timeout(DIRECTORY_LOOKUP_TIMEOUT_MS).emit('find-user', username, (err: Error | null, response?: { found: boolean, user?: UserProfile }) => {
+        if (!err && response?.found && response.user) {
           resolve(response.user);
         } else {
           resolve(null);
@@ -265,14 +1211,51 @@ export const ChatProvider: React.FC<{ children: ReactNode }> = ({ children }) =>
   // Track sending state to prevent double clicks
   const isSendingRef = useRef(false);
 
-  const startFileTransfer = async (file: File, targetSocketId: string) => {
+  const startFileTransfer = async (selectedFile: File, targetSocketId: string, options?: { keepMetadata?: boolean }) => {
     if (!socketRef.current || isSendingRef.current) return;
     isSendingRef.current = true;
 
     try {
+      // Before slicing, so the original bytes are never encrypted or sent; the notice stays local
+      let file = selectedFile;
+      const noticeOptions = targetSocketId === 'ROOM'
+        ? undefined
+        : { isDirect: true, peerId: targetSocketId, peerUsername: activeUsers.find(u => u.socketId === targetSocketId)?.username };
+      if (isMetadataStrippingEnabled() && !options?.keepMetadata) {
+        try {
+          const stripped = await stripMetadata(selectedFile);
+          file = stripped.file;
+          if (stripped.removed.length > 0) {
+            addSystemMessage(`Removed metadata from ${file.name}: ${stripped.removed.join(', ')}.`, SystemMessageType.CRYPTO_STATUS, noticeOptions);
+          }
+        } catch (e) {
+          console.error("Metadata stripping failed:", e);
+          const reason = e instanceof Error ? ` (${e.message})` : '';
+          addSystemMessage(`Not sending ${selectedFile.name}: its metadata could not be removed${reason}. Send it with metadata kept to share it anyway.`, SystemMessageType.ERROR, noticeOptions);
+          return;
+        }
+      }
+
       // Helper to initiate transfer for a single peer
       const initiateTransfer = async (peerId: string) => {
         const transferId = `transfer-${Date.now()}-${Math.random().toString(36).substr(2, 9)}`;
+        const peer = activeUsersRef.current.find(u => u.socketId === peerId) || roomMembersRef.current.get(peerId);
+        const peerUsername = peer?.username;
+        if (isAwaitingKeyConfirmation(peerUsername)) {
+          addSystemMessage(`Not sending ${file.name} to ${peerUsername}: confirm their new identity key first.`, SystemMessageType.KEY_EXCHANGE);
+          return;
+        }
+
+        const suite = peer ? selectSuite([peer]) : SUPPORTED_SUITES[0];
+        if (!suite) return;
+
+        const secret = sharedSecretsRef.current.get(peerId);
+        const ownUsername = userIdentity?.username;
+        if (!secret || !peerUsername || !ownUsername) {
+          console.error(`Cannot send file to ${peerId}: No shared secret available.`);
+          return;
+        }
+        fileKeysRef.current.set(transferId, await deriveFileTransferKey(secret, transferId, ownUsername, peerUsername));
 
         const transferState: FileTransferState = {
           transferId,
@@ -288,8 +1271,10 @@ export const ChatProvider: React.FC<{ children: ReactNode }> = ({ children }) =>
           peerSocketId: peerId,
           startTime: Date.now(),
           isDirect: targetSocketId !== 'ROOM',
-          peerUsername: targetSocketId !== 'ROOM' ? activeUsers.find(u => u.socketId === targetSocketId)?.username : undefined
+          peerUsername: targetSocketId !== 'ROOM' ? activeUsers.find(u => u.socketId === targetSocketId)?.username : undefined,
+          suite
         };
+        transferState.expiresAt = expiresAtFor(transferState.isDirect ? transferState.peerUsername : 'ROOM', transferState.startTime);
 
         // Store chunks
         if (!(window as any).pendingFileChunks) {
@@ -303,16 +1288,43 @@ export const ChatProvider: React.FC<{ children: ReactNode }> = ({ children }) =>
         // Update State
         setActiveTransfers(prev => ({ ...prev, [transferId]: transferState }));
 
+        // Seal the file metadata so the relay only ever sees the transfer id
+        const offerInfo: FileOfferInfo = {
+          transferId,
+          name: file.name,
+          size: file.size,
+          fileType: file.type,
+          totalChunks,
+          isDirect: targetSocketId !== 'ROOM',
+          ...currentExpiryTimer(transferState.isDirect ? peerUsername : 'ROOM')
+        };
+        const ownPublicKeyJwk = await exportPublicKeyJwk(ownKeyPairRef.current!.publicKey);
+        const envelope = {
+          id: transferId,
+          timestamp: Date.now(),
+          type: MessageType.FILE_INFO as const,
+          version: PROTOCOL_VERSION,
+          suite,
+          senderPublicKeyJwkString: JSON.stringify(ownPublicKeyJwk),
+          senderUsername: ownUsername,
+          recipient: peerUsername
+        };
+        const offerKey = await deriveContextKey(secret, { context: 'file-offer', sender: ownUsername, recipient: peerUsername });
+        const encrypted = await encryptText(JSON.stringify(offerInfo), offerKey, encodeMessageAad(envelope), getPaddingPolicy(), suite);
+        if (!encrypted) {
+          addSystemMessage(`Failed to encrypt file offer for ${file.name}.`, SystemMessageType.ERROR);
+          return;
+        }
+
+        const offer = await signOutgoing<EncryptedFileMessage>({
+          ...envelope,
+          encryptedFileInfoDataB64: encrypted.encryptedDataB64,
+          ivB64: encrypted.ivB64
+        });
+
         socketRef.current?.emit('file-offer', {
           targetSocketId: peerId,
-          metadata: {
-            transferId,
-            fileName: file.name,
-            fileSize: file.size,
-            fileType: file.type,
-            totalChunks,
-            isDirect: targetSocketId !== 'ROOM'
-          }
+          metadata: offer
         });
       };
 
@@ -321,15 +1333,9 @@ export const ChatProvider: React.FC<{ children: ReactNode }> = ({ children }) =>
       const totalChunks = chunks.length;
 
       if (targetSocketId === 'ROOM') {
-        // Broadcast to all users in room (excluding self)
-        // Deduplicate peers based on socketId to prevent double sending
-        const uniquePeersMap = new Map<string, UserProfile>();
-        activeUsers.forEach(u => {
-          if (u.socketId !== socketRef.current?.id && u.isOnline) {
-            uniquePeersMap.set(u.socketId, u);
-          }
-        });
-        const peers = Array.from(uniquePeersMap.values());
+        // Only room members (not DM partners elsewhere), and in protected rooms only those who proved the passphrase
+        const peers = Array.from(roomMembersRef.current.values())
+          .filter(member => member.socketId !== socketRef.current?.id && isMemberAuthorized(member.socketId));
 
 
         if (peers.length === 0) {
@@ -386,6 +1392,8 @@ export const ChatProvider: React.FC<{ children: ReactNode }> = ({ children }) =>
       targetSocketId: transfer.peerSocketId,
       transferId
     });
+    fileKeysRef.current.delete(transferId);
+    fileChunksRef.current.delete(transferId);
 
     // Remove from active transfers
     const newTransfers = { ...activeTransfers };
@@ -396,16 +1404,23 @@ export const ChatProvider: React.FC<{ children: ReactNode }> = ({ children }) =>
   };
 
   const sendChunks = async (transferId: string, targetSocketId: string, chunks: ArrayBuffer[]) => {
+    const fileKey = fileKeysRef.current.get(transferId);
+    if (!fileKey) {
+      console.error('No file key found for transfer:', transferId);
+      addSystemMessage(`Error: File key not found`, SystemMessageType.ERROR);
+      return;
+    }
+
     for (let i = 0; i < chunks.length; i++) {
       // Check if cancelled
       if (!activeTransfersRef.current[transferId]) return;
 
-      const chunk = chunks[i];
+      const sealedChunk = await encryptFileChunk(chunks[i], fileKey, transferId, i, activeTransfersRef.current[transferId].suite);
       socketRef.current?.emit('file-chunk', {
         targetSocketId,
         transferId,
         chunkId: i,
-        data: chunk
+        data: sealedChunk
       });
 
       // Update progress locally (Throttle to every 1%)
@@ -426,12 +1441,13 @@ export const ChatProvider: React.FC<{ children: ReactNode }> = ({ children }) =>
     }
 
     socketRef.current?.emit('file-complete', { targetSocketId, transferId });
+    fileKeysRef.current.delete(transferId);
 
     // Get transfer info for message
     const transfer = activeTransfersRef.current[transferId];
     if (transfer) {
       updateTransferState(transferId, { status: 'completed', progress: 100 });
-      addSystemMessage(`✅ File sent: ${transfer.fileName} (${(transfer.fileSize / 1024).toFixed(1)} KB)`, SystemMessageType.WEBRTC_STATUS, { isDirect: transfer.isDirect, peerId: transfer.peerSocketId, peerUsername: transfer.peerUsername });
+      addSystemMessage(`✅ File sent: ${transfer.fileName} (${(transfer.fileSize / 1024).toFixed(1)} KB)`, SystemMessageType.WEBRTC_STATUS, { isDirect: transfer.isDirect, peerId: transfer.peerSocketId, peerUsername: transfer.peerUsername, expires: true });
 
       // Auto-remove after 2 seconds
       setTimeout(() => {
@@ -453,6 +1469,8 @@ export const ChatProvider: React.FC<{ children: ReactNode }> = ({ children }) =>
       targetSocketId: transfer.peerSocketId,
       transferId
     });
+    fileKeysRef.current.delete(transferId);
+    fileChunksRef.current.delete(transferId);
 
     // Remove from active transfers
     const newTransfers = { ...activeTransfers };
@@ -469,9 +1487,11 @@ export const ChatProvider: React.FC<{ children: ReactNode }> = ({ children }) =>
   }, [activeTransfers]);
 
   // Consolidated Socket Connection and Event Listeners
+  // Keyed on key presence rather than the pair itself, so a rotation keeps the connection
+  const hasKeys = !!ownKeyPair;
   useEffect(() => {
     if (!userIdentity) return;
-    if (!ownKeyPair) return; // Wait for keys
+    if (!hasKeys) return; // Wait for keys
 
     // Prevent multiple connections
     if (socketRef.current) return;
@@ -491,21 +1511,26 @@ export const ChatProvider: React.FC<{ children: ReactNode }> = ({ children }) =>
 
       // Register User Globally
       if (userIdentity && ownKeyPairRef.current) {
-        exportPublicKeyJwk(ownKeyPairRef.current.publicKey).then(jwk => {
+        Promise.all([exportPublicKeyJwk(ownKeyPairRef.current.publicKey), getOwnSigningKeyJwk()]).then(([jwk, signingKey]) => {
           socket.emit('register-user', {
             username: userIdentity.username,
-            publicKey: jwk
+            publicKey: jwk,
+            signingKey,
+            suites: SUPPORTED_SUITES
           });
         });
       }
 
       // Auto-rejoin if we have state
       if (roomId && roomId !== 'Direct Chat' && userIdentity && ownKeyPairRef.current) {
-        exportPublicKeyJwk(ownKeyPairRef.current.publicKey).then(jwk => {
+        Promise.all([exportPublicKeyJwk(ownKeyPairRef.current.publicKey), getOwnSigningKeyJwk()]).then(([jwk, signingKey]) => {
           socket.emit('join-room', {
             roomId,
             username: userIdentity.username,
-            publicKey: jwk
+            publicKey: jwk,
+            signingKey,
+            suites: SUPPORTED_SUITES,
+            verifier: roomCredentialsRef.current?.verifier
           });
         });
       }
@@ -521,17 +1546,55 @@ export const ChatProvider: React.FC<{ children: ReactNode }> = ({ children }) =>
     socket.off('file-complete');
     socket.off('file-cancel');
 
-    socket.on('file-offer', ({ senderSocketId, metadata, fileMetadata }: { senderSocketId: string, metadata: any, fileMetadata: any }) => {
-      const data = metadata || fileMetadata;
+    socket.on('file-offer', async ({ senderSocketId, metadata }: { senderSocketId: string, metadata: EncryptedFileMessage }) => {
+      if (!metadata || metadata.type !== MessageType.FILE_INFO || !metadata.encryptedFileInfoDataB64) {
+        console.error(`Ignoring unencrypted file offer from ${senderSocketId}.`);
+        return;
+      }
+
+      const senderUsername = activeUsersRef.current.find(u => u.socketId === senderSocketId)?.username;
+      if (!senderUsername || !(await verifySender(senderUsername, metadata, userIdentity.username))) {
+        console.error(`Rejected file offer from ${senderSocketId}: invalid signature.`);
+        return;
+      }
+      if (!acceptFreshEnvelope(senderUsername, metadata, { isDirect: true, peerId: senderSocketId, peerUsername: senderUsername })) return;
+      if (!acceptEnvelopeVersion(senderUsername, metadata, { isDirect: true, peerId: senderSocketId, peerUsername: senderUsername })) return;
+
+      const secret = sharedSecretsRef.current.get(senderSocketId);
+      if (!secret) {
+        console.error(`Ignoring file offer from ${senderSocketId}: No shared secret available.`);
+        return;
+      }
+
+      const offerKey = await deriveContextKey(secret, { context: 'file-offer', sender: senderUsername, recipient: userIdentity.username });
+      const decryptedInfo = await decryptText(metadata.encryptedFileInfoDataB64, metadata.ivB64, offerKey, encodeMessageAad(metadata), hasPaddedPayload(metadata), metadata.suite);
+      let data: FileOfferInfo;
+      try {
+        if (!decryptedInfo) throw new Error('Decryption failed');
+        data = JSON.parse(decryptedInfo);
+        // The sealed transfer id must match the one used to route chunks
+        if (data.transferId !== metadata.id) throw new Error('Transfer id mismatch');
+      } catch (e) {
+        console.error(`Rejected file offer from ${senderSocketId}:`, e);
+        return;
+      }
+      // Room files are only taken from members of our room, and in protected rooms only from authenticated ones
+      if (!data.isDirect && (!roomMembersRef.current.has(senderSocketId) || !isMemberAuthorized(senderSocketId))) {
+        console.warn(`Rejected room file offer from ${senderUsername}: not an authorized room member.`);
+        return;
+      }
 
+      fileKeysRef.current.set(data.transferId, await deriveFileTransferKey(secret, data.transferId, senderUsername, userIdentity.username));
+      learnExpiryTimer(data.isDirect ? senderUsername : 'ROOM', data.expiryMs, data.expirySetAt,
+        data.isDirect ? { isDirect: true, peerId: senderSocketId, peerUsername: senderUsername } : undefined);
 
       const transferState: FileTransferState = {
         transferId: data.transferId,
         fileId: data.transferId,
-        fileName: data.fileName || data.name || `unknown_file_${Date.now()}`,
-        fileSize: data.fileSize || data.size,
-        fileType: data.fileType || data.type,
-        chunksTotal: data.totalChunks || data.chunksTotal,
+        fileName: data.name || `unknown_file_${Date.now()}`,
+        fileSize: data.size,
+        fileType: data.fileType,
+        chunksTotal: data.totalChunks,
         chunksReceived: 0,
         progress: 0,
         status: 'pending',
@@ -540,8 +1603,10 @@ export const ChatProvider: React.FC<{ children: ReactNode }> = ({ children }) =>
         // chunks: new Map(), // Don't store chunks in state
         startTime: Date.now(),
         isDirect: data.isDirect,
-        peerUsername: data.isDirect ? activeUsersRef.current.find(u => u.socketId === senderSocketId)?.username : undefined
+        peerUsername: senderUsername, // Signed sender; also names the sender of group files
+        suite: metadata.suite
       };
+      transferState.expiresAt = expiresAtFor(transferState.isDirect ? transferState.peerUsername : 'ROOM', metadata.timestamp);
 
       // Initialize chunks storage
       fileChunksRef.current.set(data.transferId, new Map());
@@ -550,7 +1615,7 @@ export const ChatProvider: React.FC<{ children: ReactNode }> = ({ children }) =>
       activeTransfersRef.current[data.transferId] = transferState;
 
       setActiveTransfers(prev => ({ ...prev, [data.transferId]: transferState }));
-      addSystemMessage(`📎 File offer: ${transferState.fileName} (${(transferState.fileSize / 1024).toFixed(1)} KB)`, SystemMessageType.WEBRTC_STATUS, { isDirect: transferState.isDirect, peerId: transferState.peerSocketId, peerUsername: transferState.peerUsername });
+      addSystemMessage(`📎 File offer: ${transferState.fileName} (${(transferState.fileSize / 1024).toFixed(1)} KB)`, SystemMessageType.WEBRTC_STATUS, { isDirect: transferState.isDirect, peerId: transferState.peerSocketId, peerUsername: transferState.peerUsername, expires: true });
     });
 
     socket.on('file-accept', async ({ transferId }: { transferId: string }) => {
@@ -578,6 +1643,8 @@ export const ChatProvider: React.FC<{ children: ReactNode }> = ({ children }) =>
       // Actually we don't have the transfer object here if we don't look it up before deleting?
       // Wait, the listener doesn't have the transfer object.
       // We need to look it up from activeTransfersRef
+      fileKeysRef.current.delete(transferId);
+      (window as any).pendingFileChunks?.delete(transferId);
       const transfer = activeTransfersRef.current[transferId];
       if (transfer) {
         addSystemMessage(`File transfer declined.`, SystemMessageType.ERROR, { isDirect: transfer.isDirect, peerId: transfer.peerSocketId, peerUsername: transfer.peerUsername });
@@ -591,15 +1658,54 @@ export const ChatProvider: React.FC<{ children: ReactNode }> = ({ children }) =>
       });
     });
 
-    socket.on('file-chunk', ({ transferId, chunkId, data }: { transferId: string, chunkId: number, data: ArrayBuffer }) => {
+    // Drops a transfer whose chunks failed to authenticate and tells the sender to stop
+    const rejectTransfer = (transferId: string) => {
+      const transfer = activeTransfersRef.current[transferId];
+      fileKeysRef.current.delete(transferId);
+      fileChunksRef.current.delete(transferId);
+      if (!transfer || transfer.status === 'error') return;
+
+      activeTransfersRef.current[transferId] = { ...transfer, status: 'error' };
+      socket.emit('file-cancel', { targetSocketId: transfer.peerSocketId, transferId });
+      addSystemMessage(`Rejected ${transfer.fileName}: a chunk failed authentication.`, SystemMessageType.ERROR, { isDirect: transfer.isDirect, peerId: transfer.peerSocketId, peerUsername: transfer.peerUsername });
+      setActiveTransfers(prev => {
+        const newTransfers = { ...prev };
+        delete newTransfers[transferId];
+        return newTransfers;
+      });
+    };
+
+    socket.on('file-chunk', ({ senderSocketId, transferId, chunkId, data }: { senderSocketId: string, transferId: string, chunkId: number, data: ArrayBuffer }) => {
+      // Chunks must come from the peer that made the offer; room files additionally from a member still authorized
+      const transfer = activeTransfersRef.current[transferId];
+      if (!transfer || transfer.isUpload || transfer.peerSocketId !== senderSocketId) return;
+      if (!transfer.isDirect && !isMemberAuthorized(senderSocketId)) {
+        rejectTransfer(transferId);
+        return;
+      }
+      const previous = chunkDecryptionsRef.current.get(transferId) || Promise.resolve();
+      const decryption = previous.then(() => handleSealedChunk(transferId, chunkId, data));
+      chunkDecryptionsRef.current.set(transferId, decryption);
+    });
+
+    const handleSealedChunk = async (transferId: string, chunkId: number, data: ArrayBuffer) => {
+      const fileKey = fileKeysRef.current.get(transferId);
+      if (!fileKey) return; // Unknown, cancelled or already rejected transfer
+
+      const plainChunk = await decryptFileChunk(data, fileKey, transferId, chunkId, activeTransfersRef.current[transferId]?.suite);
+      if (!plainChunk) {
+        rejectTransfer(transferId);
+        return;
+      }
+
       // 1. Store chunk in Ref (Bypassing State)
       const chunksMap = fileChunksRef.current.get(transferId);
       if (chunksMap) {
-        chunksMap.set(chunkId, data);
+        chunksMap.set(chunkId, plainChunk);
       } else {
         // Fallback if map missing (shouldn't happen if offer processed)
         const newMap = new Map<number, ArrayBuffer>();
-        newMap.set(chunkId, data);
+        newMap.set(chunkId, plainChunk);
         fileChunksRef.current.set(transferId, newMap);
       }
 
@@ -625,9 +1731,9 @@ export const ChatProvider: React.FC<{ children: ReactNode }> = ({ children }) =>
           }
         };
       });
-    });
+    };
 
-    socket.on('file-complete', ({ transferId }: { transferId: string }) => {
+    socket.on('file-complete', async ({ transferId }: { transferId: string }) => {
       // 1. Absolute Guard: Check if already processed
       if (processedTransferIds.current.has(transferId)) {
 
@@ -642,6 +1748,12 @@ export const ChatProvider: React.FC<{ children: ReactNode }> = ({ children }) =>
       // 3. Mark as processed IMMEDIATELY
       processedTransferIds.current.add(transferId);
 
+      // Wait for in-flight chunk decryptions before reassembling
+      await chunkDecryptionsRef.current.get(transferId);
+      chunkDecryptionsRef.current.delete(transferId);
+      fileKeysRef.current.delete(transferId);
+      if (activeTransfersRef.current[transferId]?.status === 'error') return;
+
       // Update Ref to reflect status (for UI consistency if state lags)
       activeTransfersRef.current[transferId] = { ...transfer, status: 'completed', progress: 100 };
 
@@ -656,6 +1768,13 @@ export const ChatProvider: React.FC<{ children: ReactNode }> = ({ children }) =>
             return;
           }
 
+          if (chunks.size !== transfer.chunksTotal) {
+            console.error(`[File Complete] Error: Expected ${transfer.chunksTotal} chunks, got ${chunks.size}.`);
+            addSystemMessage(`Error: File incomplete (${chunks.size}/${transfer.chunksTotal} chunks).`, SystemMessageType.ERROR, { isDirect: transfer.isDirect, peerId: transfer.peerSocketId, peerUsername: transfer.peerUsername });
+            fileChunksRef.current.delete(transferId);
+            return;
+          }
+
 
 
           const blob = FileTransferManager.reassembleFile(chunks, transfer.chunksTotal, transfer.fileType);
@@ -666,11 +1785,6 @@ export const ChatProvider: React.FC<{ children: ReactNode }> = ({ children }) =>
             return;
           }
 
-          const url = URL.createObjectURL(blob);
-          const a = document.createElement('a');
-          a.style.display = 'none';
-          a.href = url;
-
           // Force Filename
           let safeName = transfer.fileName && transfer.fileName.trim() !== ''
             ? transfer.fileName
@@ -682,28 +1796,41 @@ export const ChatProvider: React.FC<{ children: ReactNode }> = ({ children }) =>
             if (ext) safeName += `.${ext}`;
           }
 
-          a.setAttribute('download', safeName);
-          document.body.appendChild(a);
-
+          // The file becomes a message; downloading it is up to the user
+          const preview = FileTransferManager.previewKind(transfer.fileType, blob.size);
+          const url = URL.createObjectURL(new Blob([blob], { type: FileTransferManager.localBlobType(transfer.fileType, preview) }));
+          fileChunksRef.current.delete(transferId);
 
-          a.click();
-
-          // Cleanup - Increase timeout to ensure browser has time to save
-          setTimeout(() => {
-            document.body.removeChild(a);
-            URL.revokeObjectURL(url);
-            // Remove chunks from memory
-            fileChunksRef.current.delete(transferId);
-
-          }, 30000); // 30 seconds wait
-
-          addSystemMessage(`✅ File received: ${safeName}`, SystemMessageType.WEBRTC_STATUS, { isDirect: transfer.isDirect, peerId: transfer.peerSocketId, peerUsername: transfer.peerUsername });
+          // Incoming transfers always carry the signed sender's username (see the file offer handler)
+          const conversation = transfer.isDirect ? transfer.peerUsername! : 'ROOM';
+          const timestamp = Date.now();
+          const fileMessage: DecryptedMessage = {
+            id: `file-${transferId}`,
+            timestamp,
+            senderIsSelf: false,
+            senderName: transfer.peerUsername,
+            senderSocketId: transfer.peerSocketId,
+            isDirect: transfer.isDirect,
+            fileInfo: { name: safeName, size: blob.size, fileType: transfer.fileType },
+            fileUrl: url,
+            expiresAt: expiresAtFor(conversation, timestamp)
+          };
+          fileUrlsRef.current.set(fileMessage.id, { url, conversation });
+          if (transfer.isDirect) {
+            setDirectMessages(prev => ({ ...prev, [conversation]: [...(prev[conversation] || []), fileMessage] }));
+          } else {
+            setRoomMessages(prev => [...prev, fileMessage]);
+          }
+          const unreadKey = transfer.isDirect ? transfer.peerSocketId : 'ROOM';
+          if (activeChatTargetRef.current !== unreadKey) {
+            setUnreadCounts(prev => ({ ...prev, [unreadKey]: (prev[unreadKey] || 0) + 1 }));
+          }
         } catch (err) {
-          console.error("Download failed:", err);
+          console.error("Receiving file failed:", err);
           addSystemMessage(`Error saving file: ${err}`, SystemMessageType.ERROR, { isDirect: transfer.isDirect, peerId: transfer.peerSocketId, peerUsername: transfer.peerUsername });
         }
       } else {
-        addSystemMessage(`✅ File sent: ${transfer.fileName}`, SystemMessageType.WEBRTC_STATUS, { isDirect: transfer.isDirect, peerId: transfer.peerSocketId, peerUsername: transfer.peerUsername });
+        addSystemMessage(`✅ File sent: ${transfer.fileName}`, SystemMessageType.WEBRTC_STATUS, { isDirect: transfer.isDirect, peerId: transfer.peerSocketId, peerUsername: transfer.peerUsername, expires: true });
       }
 
       // 3. Update React State (Visuals)
@@ -723,6 +1850,9 @@ export const ChatProvider: React.FC<{ children: ReactNode }> = ({ children }) =>
     });
 
     socket.on('file-cancel', ({ transferId }: { transferId: string }) => {
+      fileKeysRef.current.delete(transferId);
+      fileChunksRef.current.delete(transferId);
+      chunkDecryptionsRef.current.delete(transferId);
       setActiveTransfers(prev => {
         const transfer = prev[transferId];
         if (!transfer) return prev;
@@ -750,6 +1880,17 @@ export const ChatProvider: React.FC<{ children: ReactNode }> = ({ children }) =>
     // --- Chat Listeners ---
 
     socket.on('room-users', async (users: UserProfile[]) => {
+      // Members who vanished without a 'user-left' still force a sender key rotation
+      const previousMembers = roomMembersRef.current;
+      roomMembersRef.current = new Map(users.map(u => [u.socketId, u]));
+      const departed = Array.from(previousMembers.values()).filter(m => !roomMembersRef.current.has(m.socketId));
+      await Promise.all(users.map(pinIdentity));
+      departed.forEach(m => {
+        senderKeyRecipientsRef.current.delete(m.socketId);
+        authenticatedMembersRef.current.delete(m.socketId);
+        proofsSentRef.current.delete(m.socketId);
+        if (!users.some(u => u.username === m.username)) peerSenderKeysRef.current.delete(m.username);
+      });
 
       setActiveUsers(prev => {
         // 1. Mark incoming users as online
@@ -811,12 +1952,13 @@ export const ChatProvider: React.FC<{ children: ReactNode }> = ({ children }) =>
         if (targetInRoom) {
           handleSetActiveChatTarget(targetInRoom.socketId, targetInRoom.username);
           setPendingTargetUser(null);
-          socket.emit('direct-chat-request', { targetUsername: targetInRoom.username, senderUsername: userIdentity?.username });
+          sendDirectChatRequest(targetInRoom);
           addSystemMessage(`Found user ${targetInRoom.username} in room.`, SystemMessageType.GENERAL);
         } else {
           socket.emit('find-user', pending, async (response: { found: boolean, user?: UserProfile }) => {
             if (response.found && response.user) {
               const user = response.user;
+              await pinIdentity(user);
               setActiveUsers(prev => {
                 if (prev.find(u => u.socketId === user.socketId)) return prev;
                 return [...prev, user];
@@ -832,7 +1974,7 @@ export const ChatProvider: React.FC<{ children: ReactNode }> = ({ children }) =>
               }
               handleSetActiveChatTarget(user.socketId, user.username);
               setPendingTargetUser(null);
-              socket.emit('direct-chat-request', { targetUsername: user.username, senderUsername: userIdentity?.username });
+              sendDirectChatRequest(user);
               addSystemMessage(`Found user ${user.username} globally. Starting chat.`, SystemMessageType.GENERAL);
             } else {
               addSystemMessage(`User ${pending} not found online.`, SystemMessageType.ERROR);
@@ -854,10 +1996,19 @@ export const ChatProvider: React.FC<{ children: ReactNode }> = ({ children }) =>
           }
         }
       }
+
+      await sendMembershipProofs();
+      if (departed.length > 0) {
+        rotateSenderKey();
+      } else {
+        shareSenderKey();
+      }
     });
 
     socket.on('user-joined', async (user: UserProfile) => {
       console.log("User joined:", user);
+      roomMembersRef.current.set(user.socketId, user);
+      await pinIdentity(user);
       const onlineUser = { ...user, isOnline: true };
 
       setActiveUsers((prev: UserProfile[]) => {
@@ -919,9 +2070,21 @@ export const ChatProvider: React.FC<{ children: ReactNode }> = ({ children }) =>
           sharedSecretsRef.current.set(user.socketId, secret);
         } catch (e) { console.error("Key derivation error:", e); }
       }
+      await sendMembershipProofs();
+      shareSenderKey();
     });
 
     socket.on('user-left', (socketId: string) => {
+      const departed = roomMembersRef.current.get(socketId);
+      if (departed) {
+        roomMembersRef.current.delete(socketId);
+        senderKeyRecipientsRef.current.delete(socketId);
+        authenticatedMembersRef.current.delete(socketId);
+        proofsSentRef.current.delete(socketId);
+        peerSenderKeysRef.current.delete(departed.username);
+        rotateSenderKey();
+      }
+
       setActiveUsers((prev: UserProfile[]) => {
         const user = prev.find((u: UserProfile) => u.socketId === socketId);
         if (user) {
@@ -938,13 +2101,82 @@ export const ChatProvider: React.FC<{ children: ReactNode }> = ({ children }) =>
       });
     });
 
-    socket.on('encrypted-message', async (data: { senderSocketId: string, senderUsername?: string, payload: EncryptedTextMessage }) => {
-      const { senderSocketId, senderUsername, payload } = data;
+    socket.on('room-auth', ({ senderSocketId, payload }: { senderSocketId: string, payload: RoomAuthMessage }) => {
+      // Same queue as the member's room traffic, so their key distribution is only judged after their proof
+      withSessionLock(`room:${senderSocketId}`, () => handleMembershipProof(senderSocketId, payload))
+        .catch(e => console.error("Failed to check membership proof:", e));
+    });
+
+    socket.on('room-join-error', ({ roomId: rejectedRoomId, reason }: { roomId: string, reason: string }) => {
+      setRoomId(null);
+      roomIdRef.current = null;
+      roomCredentialsRef.current = null;
+      roomPassphraseRef.current = null;
+      setIsRoomProtected(false);
+      resetRoomKeys(null);
+      setRoomMessages([]);
+      setRoomJoinError(reason === 'passphrase'
+        ? `Wrong passphrase for room ${rejectedRoomId}.`
+        : `Room ${rejectedRoomId} is not passphrase-protected. Join it without a passphrase.`);
+    });
+
+    type IncomingPayload = { senderSocketId: string, senderUsername?: string, payload: EncryptedTextMessage | SenderKeyDistributionMessage | RoomReceiptMessage };
+
+    socket.on('encrypted-message', (data: IncomingPayload | { senderSocketId: string, payload: KeyUpdateMessage }) => {
+      // Key updates share the per-peer queue with the ratchet session they replace
+      if (data.payload.type === MessageType.KEY_UPDATE) {
+        const update = data.payload;
+        withSessionLock(update.senderUsername || data.senderSocketId, () => handleKeyUpdate(data.senderSocketId, update))
+          .catch(e => console.error("Failed to handle key update:", e));
+        return;
+      }
+      // Keep a sender's room traffic ordered so key distributions land before the messages that use them
+      const handled = data.payload.type === MessageType.SENDER_KEY_DISTRIBUTION || data.payload.type === MessageType.ROOM_RECEIPT || !data.payload.isDirect
+        ? withSessionLock(`room:${data.senderSocketId}`, () => handleEncryptedMessage(data as IncomingPayload))
+        : handleEncryptedMessage(data as IncomingPayload);
+      handled.catch(e => {
+        console.error(`Failed to process a message from ${data.senderSocketId}:`, e);
+        addSystemMessage(`Could not process a message from ${(data as IncomingPayload).senderUsername || 'a peer'}.`, SystemMessageType.ERROR);
+      });
+    });
+
+    const handleEncryptedMessage = async (data: IncomingPayload) => {
+      const { senderSocketId, senderUsername } = data;
+      // Room traffic is only accepted from current members of our room
+      const memberUsername = roomMembersRef.current.get(senderSocketId)?.username;
+      const isRoomMessage = data.payload.type === MessageType.TEXT && !data.payload.isDirect;
+      // Sealed to us by a room member, but only valid inside the room
+      const isMemberSealed = data.payload.type === MessageType.SENDER_KEY_DISTRIBUTION || data.payload.type === MessageType.ROOM_RECEIPT;
+      const claimedUsername = isMemberSealed || isRoomMessage
+        ? memberUsername
+        : activeUsersRef.current.find(u => u.socketId === senderSocketId)?.username || senderUsername;
+
+      // Drop anything not signed by the pinned identity of its claimed sender
+      const expectedRecipient = isRoomMessage ? roomIdRef.current : userIdentity.username;
+      if (!claimedUsername) return;
+      // In protected rooms, room traffic waits until the member has proven the passphrase
+      if ((isRoomMessage || isMemberSealed) && !isMemberAuthorized(senderSocketId)) {
+        console.warn(`Dropped room traffic from ${claimedUsername}: passphrase not proven.`);
+        return;
+      }
+      if (!(await verifySender(claimedUsername, data.payload, expectedRecipient))) {
+        console.warn(`Dropped a message from ${senderSocketId}: signature does not match ${claimedUsername}.`);
+        addSystemMessage(`Dropped a message claiming to be from ${claimedUsername}: invalid signature.`, SystemMessageType.ERROR,
+          isRoomMessage ? undefined : { isDirect: true, peerId: senderSocketId, peerUsername: claimedUsername });
+        return;
+      }
+      if (!acceptFreshEnvelope(claimedUsername, data.payload, isRoomMessage ? undefined : { isDirect: true, peerId: senderSocketId, peerUsername: claimedUsername })) {
+        return;
+      }
+      if (!acceptEnvelopeVersion(claimedUsername, data.payload, isRoomMessage ? undefined : { isDirect: true, peerId: senderSocketId, peerUsername: claimedUsername })) {
+        return;
+      }
+
       let secret = sharedSecretsRef.current.get(senderSocketId);
 
-      if (!secret && payload.senderPublicKeyJwkString) {
+      if (!secret && data.payload.senderPublicKeyJwkString) {
         try {
-          const peerKey = await importPublicKeyJwk(JSON.parse(payload.senderPublicKeyJwkString));
+          const peerKey = await importPublicKeyJwk(JSON.parse(data.payload.senderPublicKeyJwkString));
           if (ownKeyPairRef.current) {
             secret = await deriveSharedSecret(ownKeyPairRef.current.privateKey, peerKey);
             sharedSecretsRef.current.set(senderSocketId, secret);
@@ -952,11 +2184,31 @@ export const ChatProvider: React.FC<{ children: ReactNode }> = ({ children }) =>
         } catch (e) { console.error("Failed to derive secret from payload:", e); }
       }
 
-      if (!secret) return;
+      if (data.payload.type === MessageType.SENDER_KEY_DISTRIBUTION) {
+        if (secret && memberUsername) await storeSenderKeyDistribution(memberUsername, data.payload, secret);
+        return;
+      }
+      if (data.payload.type === MessageType.ROOM_RECEIPT) {
+        const receipt = secret && memberUsername ? await openRoomReceipt(memberUsername, data.payload, secret) : null;
+        if (receipt) handleControlMessage(receipt, { socketId: senderSocketId, username: memberUsername!, isDirect: false, sentAt: data.payload.timestamp });
+        return;
+      }
+      const payload = data.payload;
+      if (!payload.isDirect && !memberUsername) return;
 
       try {
-        const decryptedText = await decryptText(payload.encryptedDataB64, payload.ivB64, secret);
-        if (decryptedText) {
+        // Direct messages use the Double Ratchet, room messages the sender's Sender Key
+        const decryptedText = payload.isDirect
+          ? await decryptDirectMessage(senderSocketId, senderUsername, payload)
+          : await decryptRoomMessage(senderSocketId, memberUsername!, payload);
+        if (decryptedText && payload.control) {
+          handleControlMessage(decryptedText, { socketId: senderSocketId, username: claimedUsername, isDirect: !!payload.isDirect, sentAt: payload.timestamp });
+        } else if (decryptedText) {
+          const content = parseMessageContent(decryptedText, hasStructuredContent(payload));
+          if (!content) {
+            console.warn(`Dropped a malformed message from ${claimedUsername}.`);
+            return;
+          }
           const senderProfile = activeUsersRef.current.find(u => u.socketId === senderSocketId);
           const displayName = senderProfile?.username || senderUsername || 'Unknown';
           const currentTarget = activeChatTargetRef.current;
@@ -987,21 +2239,24 @@ export const ChatProvider: React.FC<{ children: ReactNode }> = ({ children }) =>
             }
           }
 
-          // Variables for newMessage are missing in the original code, assuming they should be derived from payload and context
-          // For an incoming message, senderIsSelf should be false, senderName should be displayName,
-          // and id/timestamp/text should come from the decrypted content or generated.
-          // Assuming `msgId`, `timestamp`, `text`, `isDirect`, `activeChatTarget` were meant to be defined earlier or derived.
-          // For this fix, I'll assume `decryptedText` is the `text` and generate `id` and `timestamp`.
-          // `isDirect` comes from `payload.isDirect`. `activeChatTarget` is not relevant for incoming messages.
+          learnExpiryTimer(payload.isDirect ? displayName : 'ROOM', content.expiryMs, content.expirySetAt,
+            payload.isDirect ? { isDirect: true, peerId: senderSocketId, peerUsername: displayName } : undefined);
+
+          // Id and timestamp are the sender's, authenticated by the envelope signature
           const newMessage = {
-            id: `${senderSocketId}-${Date.now()}`, // Generate a unique ID
-            timestamp: Date.now(),
-            text: decryptedText,
+            id: payload.id,
+            timestamp: payload.timestamp,
+            text: content.text,
+            replyTo: content.replyTo,
             senderIsSelf: false, // Incoming message, so sender is not self
             senderName: displayName,
             targetSocketId: payload.isDirect ? undefined : undefined, // We don't know the socketId here easily, but for history it doesn't matter much. 
             // Actually, if it's incoming DM, target is US. 
-            isDirect: payload.isDirect
+            isDirect: payload.isDirect,
+            // The sender's own timer wins, even for a message that arrives after a newer timer
+            expiresAt: isExpiryTimerOption(content.expiryMs)
+              ? (content.expiryMs > 0 ? payload.timestamp + content.expiryMs : undefined)
+              : expiresAtFor(payload.isDirect ? displayName : 'ROOM', payload.timestamp)
           } as DecryptedMessage;
 
           if (payload.isDirect) {
@@ -1013,11 +2268,27 @@ export const ChatProvider: React.FC<{ children: ReactNode }> = ({ children }) =>
           } else {
             setRoomMessages(prev => [...prev, newMessage]);
           }
+          queueReceipt('delivered', [payload.id], { socketId: senderSocketId, username: claimedUsername, isDirect: !!payload.isDirect });
         }
       } catch (e) { console.error("Decryption error:", e); }
-    });
+    };
 
-    socket.on('direct-chat-request', ({ senderSocketId, senderUsername }: { senderSocketId: string, senderUsername: string }) => {
+    socket.on('direct-chat-request', async ({ senderSocketId, senderUsername, handshake, resync }: { senderSocketId: string, senderUsername: string, handshake?: SignedHandshake, resync?: boolean }) => {
+      if (handshake) {
+        const isAuthentic = await verifySender(senderUsername, handshake, userIdentity.username);
+        // A replayed old handshake would otherwise replace the current session
+        if (isAuthentic && acceptFreshEnvelope(senderUsername, { id: `handshake:${handshakeId(handshake.handshake)}:${handshake.timestamp}`, timestamp: handshake.timestamp })) {
+          // The peer lost its session, so ours is useless even if we also have a handshake pending
+          withSessionLock(senderUsername, () => acceptHandshake(senderUsername, handshake.handshake, { force: resync }))
+            .then(() => {
+              if (resync) addSystemMessage(`${senderUsername} restarted the secure session. Messages sent while it was out of sync may need to be sent again.`, SystemMessageType.KEY_EXCHANGE, { isDirect: true, peerId: senderSocketId, peerUsername: senderUsername });
+            })
+            .catch(e => console.error("Failed to accept ratchet handshake:", e));
+        } else {
+          console.warn(`Ignoring unsigned or forged handshake from ${senderUsername}.`);
+        }
+      }
+      if (resync) return;
       setChatRequests(prev => {
         if (prev.find(r => r.senderSocketId === senderSocketId)) return prev;
         return [...prev, { senderSocketId, senderUsername }];
@@ -1026,6 +2297,7 @@ export const ChatProvider: React.FC<{ children: ReactNode }> = ({ children }) =>
 
     socket.on('end-direct-chat', ({ senderSocketId, senderUsername }: { senderSocketId: string, senderUsername: string }) => {
       addSystemMessage(`${senderUsername} ended the chat.`, SystemMessageType.CONNECTION_STATUS);
+      releaseFileUrls(senderUsername);
       if (activeChatTargetRef.current === senderSocketId) {
         handleSetActiveChatTarget('ROOM');
       }
@@ -1063,7 +2335,7 @@ export const ChatProvider: React.FC<{ children: ReactNode }> = ({ children }) =>
       socket.disconnect();
       socketRef.current = null;
     };
-  }, [userIdentity, ownKeyPair]); // Run once when identity/keys are ready
+  }, [userIdentity, hasKeys]); // Run once when identity/keys are ready
 
   useEffect(() => {
     activeUsersRef.current = activeUsers;
@@ -1071,8 +2343,16 @@ export const ChatProvider: React.FC<{ children: ReactNode }> = ({ children }) =>
 
 
 
-  const joinRoom = async (newRoomId: string) => {
+  const joinRoom = async (newRoomId: string, passphrase?: string) => {
     if (!socketRef.current || !userIdentity || !ownKeyPair) return;
+    setRoomJoinError(null);
+
+    // Protected rooms: only a verifier of the stretched passphrase reaches the nexus
+    let credentials: RoomCredentials | null = null;
+    if (passphrase) {
+      setCryptoStatusMessage("Deriving room key...");
+      credentials = await deriveRoomCredentials(newRoomId, passphrase);
+    }
 
     // Keys are already generated on init
     const publicKeyJwk = await exportPublicKeyJwk(ownKeyPair.publicKey);
@@ -1080,15 +2360,33 @@ export const ChatProvider: React.FC<{ children: ReactNode }> = ({ children }) =>
     socketRef.current.emit('join-room', {
       roomId: newRoomId,
       username: userIdentity.username,
-      publicKey: publicKeyJwk
+      publicKey: publicKeyJwk,
+      signingKey: await getOwnSigningKeyJwk(),
+      suites: SUPPORTED_SUITES,
+      verifier: credentials?.verifier
     });
 
     setRoomId(newRoomId);
+    roomIdRef.current = newRoomId;
+    // Fresh sender key per room; keys of the previous room's members are dropped
+    resetRoomKeys(createSenderKey());
+    roomCredentialsRef.current = credentials;
+    roomPassphraseRef.current = passphrase || null;
+    setIsRoomProtected(!!credentials);
     // Only clear ROOM messages, keep DMs
     setRoomMessages([]);
     setCryptoStatusMessage("Joined room. Waiting for messages...");
   };
 
+  const createInviteLink = (ttlMs = 0): string | null => {
+    if (!roomIdRef.current) return null;
+    return buildInviteUrl({
+      roomId: roomIdRef.current,
+      secret: roomPassphraseRef.current || undefined,
+      expiresAt: ttlMs > 0 ? Date.now() + ttlMs : undefined
+    });
+  };
+
   const startDirectChat = async (targetUsername: string) => {
     if (!socketRef.current || !userIdentity || !ownKeyPair) return;
 
@@ -1099,6 +2397,7 @@ export const ChatProvider: React.FC<{ children: ReactNode }> = ({ children }) =>
     const user = await findUser(targetUsername);
 
     if (user) {
+      await pinIdentity(user);
       // Add to activeUsers so we can chat
       setActiveUsers(prev => {
         if (prev.find(u => u.socketId === user.socketId)) return prev;
@@ -1120,7 +2419,7 @@ export const ChatProvider: React.FC<{ children: ReactNode }> = ({ children }) =>
       handleSetActiveChatTarget(user.socketId, user.username);
 
       // Notify target
-      socketRef.current.emit('direct-chat-request', { targetUsername: user.username, senderUsername: userIdentity.username });
+      await sendDirectChatRequest(user);
 
       addSystemMessage(`Started direct chat with ${user.username}.`, SystemMessageType.GENERAL);
       setCryptoStatusMessage("Secure connection established.");
@@ -1130,24 +2429,17 @@ export const ChatProvider: React.FC<{ children: ReactNode }> = ({ children }) =>
     }
   };
 
+  // 60 digit safety number over both public identities; never touches derived secrets
   const getSafetyNumber = async (targetSocketId: string): Promise<string | null> => {
-    const secret = sharedSecretsRef.current.get(targetSocketId);
-    if (!secret) return null;
+    const peer = activeUsersRef.current.find(u => u.socketId === targetSocketId);
+    if (!peer || !userIdentity || !ownKeyPairRef.current) return null;
 
     try {
-      // Export secret key to raw bytes
-      const exported = await crypto.subtle.exportKey('raw', secret);
-      const buffer = new Uint8Array(exported);
-
-      // Create a simple hex string or hash
-      // For a "Safety Number", we usually want a numeric string or easily comparable format.
-      // Here we'll take the first 8 bytes and convert to a grouped hex string.
-      const hashBuffer = await crypto.subtle.digest('SHA-256', buffer);
-      const hashArray = Array.from(new Uint8Array(hashBuffer));
-      const hashHex = hashArray.map(b => b.toString(16).padStart(2, '0')).join('');
-
-      // Format as groups: 00000 00000 ...
-      return hashHex.substring(0, 20).match(/.{1,5}/g)?.join(' ') || hashHex;
+      const ownPublicKey = await exportPublicKeyJwk(ownKeyPairRef.current.publicKey);
+      return await computeSafetyNumber(
+        { identity: encodeIdentity(ownPublicKey, await getOwnSigningKeyJwk()), username: userIdentity.username },
+        { identity: encodeIdentity(peer.publicKey, peer.signingKey), username: peer.username }
+      );
     } catch (e) {
       console.error("Error generating safety number:", e);
       return null;
@@ -1176,6 +2468,7 @@ export const ChatProvider: React.FC<{ children: ReactNode }> = ({ children }) =>
 
     const user = await findUser(targetUsername);
     if (user) {
+      await pinIdentity(user);
       setActiveUsers(prev => {
         if (prev.find(u => u.socketId === user.socketId)) return prev;
         return [...prev, user];
@@ -1210,6 +2503,11 @@ export const ChatProvider: React.FC<{ children: ReactNode }> = ({ children }) =>
 
     // Clear room state but preserve DMs and identity
     setRoomId(null);
+    roomIdRef.current = null;
+    resetRoomKeys(null);
+    roomCredentialsRef.current = null;
+    roomPassphraseRef.current = null;
+    setIsRoomProtected(false);
 
     // Only clear room messages, keep DMs
     setRoomMessages([]);
@@ -1232,6 +2530,8 @@ export const ChatProvider: React.FC<{ children: ReactNode }> = ({ children }) =>
   };
 
   const closeDirectChat = (targetSocketId: string) => {
+    const username = activeUsers.find(u => u.socketId === targetSocketId)?.username;
+    if (username) releaseFileUrls(username);
     if (activeChatTarget === targetSocketId) {
       setActiveChatTarget('ROOM');
       setChatEnded(true);
@@ -1248,16 +2548,142 @@ export const ChatProvider: React.FC<{ children: ReactNode }> = ({ children }) =>
 
 
 
-  const sendMessage = async (text: string) => {
-    if (!socketRef.current || !ownKeyPair) return;
+  // Who an outgoing message goes to and under which suite; null when sending is not allowed right now
+  type SendRoute = { target: string | 'ROOM', isDirect: boolean, targetUser?: UserProfile, targetUsername?: string, suite: string };
 
-    const timestamp = Date.now();
-    const msgId = `msg-${timestamp}`;
-    const isDirect = activeChatTarget !== 'ROOM';
+  const prepareSend = (target: string | 'ROOM', fallbackUsername?: string | null): SendRoute | null => {
+    const isDirect = target !== 'ROOM';
+    const targetUser = isDirect ? activeUsersRef.current.find(u => u.socketId === target) : undefined;
+    const targetUsername = targetUser?.username || fallbackUsername || undefined;
+
+    // Nothing goes to a verified contact whose key changed until the user confirms the new key
+    const recipients = isDirect
+      ? [targetUsername]
+      : Array.from(roomMembersRef.current.values()).map(m => m.username);
+    if (recipients.some(isAwaitingKeyConfirmation)) {
+      console.warn("Message not sent: a recipient's identity key changed and has not been confirmed.");
+      return null;
+    }
+
+    // Room messages are one ciphertext for everyone, so the suite must suit every member
+    const suite = isDirect
+      ? (targetUser ? selectSuite([targetUser], { isDirect: true, peerId: targetUser.socketId, peerUsername: targetUser.username }) : SUPPORTED_SUITES[0])
+      : selectSuite(Array.from(roomMembersRef.current.values()));
+    if (!suite) return null;
+    return { target, isDirect, targetUser, targetUsername, suite };
+  };
+
+  // Resolves true once the nexus confirms it handed the event on, false if it could not or did not answer
+  const emitWithRelayAck = (event: string, data: unknown): Promise<boolean> => new Promise(resolve => {
+    const socket = socketRef.current;
+    if (!socket) return resolve(false);
+    socket.timeout(RELAY_ACK_TIMEOUT_MS).emit(event, data, (err: Error | null, response?: { relayed?: boolean }) => {
+      resolve(!err && !!response?.relayed);
+    });
+  });
+
+  // Encrypts one plaintext for a conversation and relays it. Chat text and control messages
+  // share this path, so both get the same ratchet / sender key protection and signature.
+  // Resolves with whether the nexus relayed it.
+  const sendEncrypted = async (plaintext: string, route: SendRoute, fields: { id: string, timestamp: number, control?: boolean }): Promise<boolean> => {
+    const currentKeyPair = ownKeyPairRef.current;
+    if (!socketRef.current || !currentKeyPair) return false;
 
     // Always include public key
-    const publicKeyJwk = await exportPublicKeyJwk(ownKeyPair.publicKey);
-    const publicKeyString = JSON.stringify(publicKeyJwk);
+    const publicKeyString = JSON.stringify(await exportPublicKeyJwk(currentKeyPair.publicKey));
+
+    if (route.isDirect) {
+      const { targetUser, targetUsername } = route;
+      if (!targetUsername) return false;
+
+      const envelope = {
+        id: fields.id,
+        timestamp: fields.timestamp,
+        type: MessageType.TEXT as const,
+        version: PROTOCOL_VERSION,
+        suite: route.suite,
+        senderPublicKeyJwkString: publicKeyString,
+        senderUsername: userIdentity?.username,
+        recipient: targetUsername,
+        isDirect: true,
+        control: fields.control
+      };
+      const encrypted = await withSessionLock(targetUsername, async () => {
+        const session = await getOrInitiateSession(targetUsername, targetUser?.publicKey);
+        if (!session) return null;
+        const result = await ratchetEncrypt(session, plaintext, encodeMessageAad(envelope), getPaddingPolicy(), route.suite);
+        ratchetSessionsRef.current.set(targetUsername, result.session);
+        return { ...result, handshake: session.pendingHandshake };
+      });
+      if (!encrypted) return false;
+
+      const payload = await signOutgoing<EncryptedTextMessage>({
+        ...envelope,
+        encryptedDataB64: encrypted.encryptedDataB64,
+        ivB64: encrypted.ivB64,
+        ratchetHeader: encrypted.header,
+        handshake: encrypted.handshake || undefined
+      });
+      return emitWithRelayAck('send-message', {
+        targetSocketId: route.target,
+        targetUsername, // Send username for lookup
+        payload,
+        senderUsername: userIdentity?.username
+      });
+    }
+
+    // Group Chat: Encrypt once under our sender key; the nexus relays it to the whole room
+    const currentRoomId = roomIdRef.current;
+    if (!currentRoomId || currentRoomId === 'Direct Chat') return false;
+
+    const envelope = {
+      id: fields.id,
+      timestamp: fields.timestamp,
+      type: MessageType.TEXT as const,
+      version: PROTOCOL_VERSION,
+      suite: route.suite,
+      senderPublicKeyJwkString: publicKeyString,
+      senderUsername: userIdentity?.username,
+      recipient: currentRoomId,
+      isDirect: false,
+      control: fields.control
+    };
+    const encrypted = await withSessionLock('room:self', async () => {
+      if (!ownSenderKeyRef.current) ownSenderKeyRef.current = createSenderKey();
+      await distributeSenderKey(); // Members who joined since the last distribution
+      const result = await senderKeyEncrypt(ownSenderKeyRef.current, plaintext, encodeMessageAad(envelope), getPaddingPolicy(), route.suite);
+      ownSenderKeyRef.current = result.state;
+      return { ...result, keyId: result.state.keyId };
+    });
+
+    const payload = await signOutgoing<EncryptedTextMessage>({
+      ...envelope,
+      encryptedDataB64: encrypted.encryptedDataB64,
+      ivB64: encrypted.ivB64,
+      senderKeyId: encrypted.keyId,
+      senderKeyIteration: encrypted.iteration
+    });
+
+    return emitWithRelayAck('send-room-message', {
+      payload,
+      senderUsername: userIdentity?.username
+    });
+  };
+
+  const sendControlMessage = async (control: ControlMessage, route: SendRoute): Promise<boolean> => {
+    const timestamp = Date.now();
+    return sendEncrypted(JSON.stringify(control), route, { id: `ctl-${timestamp}-${Math.random().toString(36).substr(2, 9)}`, timestamp, control: true });
+  };
+
+  const sendMessage = async (text: string, replyTo?: string) => {
+    if (!socketRef.current || !ownKeyPair) return;
+
+    const timestamp = Date.now();
+    const msgId = `msg-${timestamp}-${Math.random().toString(36).substr(2, 9)}`;
+    const route = prepareSend(activeChatTarget, activeChatUsername);
+    if (!route) return;
+    const { isDirect, targetUsername } = route;
+    if (!isDirect && (!roomId || roomId === 'Direct Chat')) return;
 
     const newMessage = {
       id: msgId,
@@ -1266,14 +2692,14 @@ export const ChatProvider: React.FC<{ children: ReactNode }> = ({ children }) =>
       senderIsSelf: true,
       senderName: userIdentity?.username || 'Me',
       targetSocketId: isDirect ? activeChatTarget : undefined,
-      isDirect
+      isDirect,
+      replyTo,
+      expiresAt: expiresAtFor(isDirect ? targetUsername : 'ROOM', timestamp),
+      status: 'sending'
     } as DecryptedMessage;
 
+    // Optimistically add to the conversation
     if (isDirect) {
-      // Optimistically add to DM
-      const targetUser = activeUsers.find(u => u.socketId === activeChatTarget);
-      const targetUsername = targetUser?.username || activeChatUsername;
-
       if (targetUsername) {
         setDirectMessages(prev => ({
           ...prev,
@@ -1284,92 +2710,352 @@ export const ChatProvider: React.FC<{ children: ReactNode }> = ({ children }) =>
       setRoomMessages(prev => [...prev, newMessage]);
     }
 
-    if (isDirect) {
-      const targetSocketId = activeChatTarget;
-      const secret = sharedSecretsRef.current.get(targetSocketId);
-
-      // Find the username for this socket ID to send to server for robust routing
-      const targetUser = activeUsers.find(u => u.socketId === targetSocketId);
-      const targetUsername = targetUser?.username;
-
-      if (secret) {
-        const encrypted = await encryptText(text, secret);
-        if (encrypted) {
-          const payload: EncryptedTextMessage = {
-            id: msgId,
-            timestamp,
-            type: MessageType.TEXT,
-            senderPublicKeyJwkString: publicKeyString,
-            encryptedDataB64: encrypted.encryptedDataB64,
-            ivB64: encrypted.ivB64,
-            isDirect: true
-          };
-          socketRef.current?.emit('send-message', {
-            targetSocketId,
-            targetUsername, // Send username for lookup
-            payload,
-            senderUsername: userIdentity?.username
-          });
-        }
+    const recipients = isDirect ? [targetUsername] : Array.from(roomMembersRef.current.values()).map(m => m.username);
+    awaitingReceiptsRef.current.set(msgId, {
+      sentAt: timestamp,
+      recipients: new Set(recipients.filter((username): username is string => !!username)),
+      delivered: new Set(),
+      read: new Set()
+    });
+    const content: MessageContent = { text, replyTo, ...currentExpiryTimer(isDirect ? targetUsername! : 'ROOM') };
+    const relayed = await sendEncrypted(JSON.stringify(content), route, { id: msgId, timestamp });
+    updateOwnMessageStatus([msgId], relayed ? 'relayed' : 'failed');
+  };
+
+  // --- Delivery and Read Receipts ---
+  // Own messages still waiting for receipts, and who has acknowledged them so far
+  const awaitingReceiptsRef = useRef<Map<string, { sentAt: number, recipients: Set<string>, delivered: Set<string>, read: Set<string> }>>(new Map());
+  const readReceiptsSentRef = useRef<Set<string>>(new Set()); // Incoming message ids we already sent a read receipt for
+  // Outgoing receipts waiting for the next flush, keyed by receipt kind and recipient
+  type ReceiptRecipient = { socketId: string, username: string, isDirect: boolean };
+  const pendingReceiptsRef = useRef<Map<string, { receipt: 'delivered' | 'read', to: ReceiptRecipient, messageIds: Set<string> }>>(new Map());
+  const receiptFlushTimerRef = useRef<ReturnType<typeof setTimeout> | null>(null);
+
+  // Status only ever moves forward, so a late relay ack cannot undo a receipt
+  const updateOwnMessageStatus = (messageIds: string[], status: MessageStatus) => {
+    const ids = new Set(messageIds);
+    const update = (message: DecryptedMessage): DecryptedMessage =>
+      message.senderIsSelf && ids.has(message.id) && STATUS_RANK[status] > STATUS_RANK[message.status || 'sending'] ? { ...message, status } : message;
+    setRoomMessages(prev => prev.map(update));
+    setDirectMessages(prev => Object.fromEntries(Object.entries(prev).map(([username, messages]) => [username, messages.map(update)])));
+  };
+
+  // Receipts only go to the sender of the acknowledged messages. They are batched, so a busy room costs
+  // each member one relay event per RECEIPT_BATCH_DELAY_MS rather than one per message and member.
+  const queueReceipt = (receipt: 'delivered' | 'read', messageIds: string[], to: ReceiptRecipient) => {
+    if (messageIds.length === 0) return;
+    const key = `${receipt}:${to.isDirect ? 'direct' : 'room'}:${to.socketId}`;
+    const pending = pendingReceiptsRef.current.get(key) || { receipt, to, messageIds: new Set<string>() };
+    messageIds.forEach(id => pending.messageIds.add(id));
+    pendingReceiptsRef.current.set(key, pending);
+    if (!receiptFlushTimerRef.current) receiptFlushTimerRef.current = setTimeout(flushReceipts, RECEIPT_BATCH_DELAY_MS);
+  };
+
+  const flushReceipts = () => {
+    receiptFlushTimerRef.current = null;
+    const batches: Array<{ receipt: 'delivered' | 'read', to: ReceiptRecipient, messageIds: string[] }> = [];
+    pendingReceiptsRef.current.forEach(({ receipt, to, messageIds }) => {
+      const ids = Array.from(messageIds);
+      for (let i = 0; i < ids.length; i += MAX_RECEIPT_IDS) batches.push({ receipt, to, messageIds: ids.slice(i, i + MAX_RECEIPT_IDS) });
+    });
+    pendingReceiptsRef.current.clear();
+
+    batches.filter(batch => batch.to.isDirect).forEach(({ receipt, to, messageIds }) => {
+      const route = prepareSend(to.socketId, to.username);
+      if (!route) return;
+      sendControlMessage({ kind: 'receipt', receipt, messageIds }, route)
+        .catch(e => console.error(`Failed to send ${receipt} receipt:`, e));
+    });
+    const roomBatches = batches.filter(batch => !batch.to.isDirect);
+    if (roomBatches.length > 0) {
+      sendRoomReceipts(roomBatches).catch(e => console.error("Failed to send room receipts:", e));
+    }
+  };
+
+  // Room receipts are sealed pairwise like sender key distributions, and relayed in a single event
+  const sendRoomReceipts = async (batches: Array<{ receipt: 'delivered' | 'read', to: ReceiptRecipient, messageIds: string[] }>) => {
+    const currentKeyPair = ownKeyPairRef.current;
+    const ownUsername = userIdentity?.username;
+    if (!currentKeyPair || !socketRef.current || !ownUsername) return;
+
+    const publicKeyString = JSON.stringify(await exportPublicKeyJwk(currentKeyPair.publicKey));
+    const receipts: Array<{ targetSocketId: string, payload: RoomReceiptMessage }> = [];
+    for (const { receipt, to, messageIds } of batches) {
+      const member = roomMembersRef.current.get(to.socketId);
+      if (!member || member.username !== to.username || !isMemberAuthorized(member.socketId) || isAwaitingKeyConfirmation(member.username)) continue;
+      const suite = selectSuite([member]);
+      // Anyone whose room messages we received has a shared secret with us by now
+      const secret = sharedSecretsRef.current.get(member.socketId);
+      if (!suite || !secret) continue;
+
+      const envelope = {
+        id: `rcp-${Date.now()}-${Math.random().toString(36).substr(2, 9)}`,
+        timestamp: Date.now(),
+        type: MessageType.ROOM_RECEIPT as const,
+        version: PROTOCOL_VERSION,
+        suite,
+        senderPublicKeyJwkString: publicKeyString,
+        senderUsername: ownUsername,
+        recipient: member.username
+      };
+      const control: ControlMessage = { kind: 'receipt', receipt, messageIds };
+      const key = await deriveContextKey(secret, { context: `room-receipt:${roomIdRef.current}`, sender: ownUsername, recipient: member.username });
+      const encrypted = await encryptText(JSON.stringify(control), key, encodeMessageAad(envelope), getPaddingPolicy(), suite);
+      if (!encrypted) continue;
+
+      receipts.push({
+        targetSocketId: member.socketId,
+        payload: await signOutgoing<RoomReceiptMessage>({ ...envelope, encryptedDataB64: encrypted.encryptedDataB64, ivB64: encrypted.ivB64 })
+      });
+    }
+
+    if (receipts.length > 0) {
+      socketRef.current.emit('room-receipts', { receipts, senderUsername: ownUsername });
+    }
+  };
+
+  useEffect(() => () => {
+    if (receiptFlushTimerRef.current) clearTimeout(receiptFlushTimerRef.current);
+  }, []);
+
+  // Stop waiting on messages that are gone (expired, deleted, left behind) or that some recipient never acknowledged
+  useEffect(() => {
+    if (awaitingReceiptsRef.current.size === 0) return;
+    const liveIds = new Set([...roomMessages, ...Object.values(directMessages).flat()].map(m => m.id));
+    const cutoff = Date.now() - RECEIPT_WAIT_MS;
+    awaitingReceiptsRef.current.forEach((awaiting, messageId) => {
+      if (!liveIds.has(messageId) || awaiting.sentAt < cutoff) awaitingReceiptsRef.current.delete(messageId);
+    });
+  }, [roomMessages, directMessages]);
+
+  const handleReceipt = (receipt: 'delivered' | 'read', messageIds: string[], username: string) => {
+    const completed: string[] = [];
+    for (const id of messageIds) {
+      const awaiting = awaitingReceiptsRef.current.get(id);
+      if (!awaiting || !awaiting.recipients.has(username)) continue;
+      awaiting.delivered.add(username);
+      if (receipt === 'read') awaiting.read.add(username);
+      if (awaiting.read.size === awaiting.recipients.size) {
+        awaitingReceiptsRef.current.delete(id);
+        completed.push(id);
+      } else if (awaiting.delivered.size === awaiting.recipients.size) {
+        updateOwnMessageStatus([id], 'delivered');
       }
-    } else {
-      // Group Chat: Iterate over all users in the room
-      if (activeUsers.length === 0) {
-        console.warn("No active users in room to send to.");
+    }
+    if (completed.length > 0) updateOwnMessageStatus(completed, 'read');
+  };
+
+  const markConversationRead = () => {
+    if (!areReadReceiptsEnabled() || document.visibilityState !== 'visible') return;
+    const unread = messages.filter(m => !m.senderIsSelf && !m.isSystem && !readReceiptsSentRef.current.has(m.id));
+    if (unread.length === 0) return;
+    unread.forEach(m => readReceiptsSentRef.current.add(m.id));
+
+    if (activeChatTarget === 'ROOM') {
+      // Each member only hears about their own messages
+      const members = Array.from(roomMembersRef.current.values());
+      for (const member of members) {
+        queueReceipt('read', unread.filter(m => m.senderName === member.username).map(m => m.id), { socketId: member.socketId, username: member.username, isDirect: false });
       }
+    } else if (activeChatUsername) {
+      queueReceipt('read', unread.map(m => m.id), { socketId: activeChatTarget, username: activeChatUsername, isDirect: true });
+    }
+  };
 
-      activeUsers.forEach(async (user: UserProfile) => {
-        let secret = sharedSecretsRef.current.get(user.socketId);
-
-        // Self-Healing: If secret is missing, try to derive it now
-        if (!secret && user.publicKey && ownKeyPair) {
-          try {
-            console.log(`[Self-Heal] Deriving missing secret for ${user.username} (${user.socketId})`);
-            const peerKey = await importPublicKeyJwk(user.publicKey);
-            secret = await deriveSharedSecret(ownKeyPair.privateKey, peerKey);
-            sharedSecretsRef.current.set(user.socketId, secret);
-          } catch (err) {
-            console.error(`[Self-Heal] Failed to derive secret for ${user.username}:`, err);
-          }
-        }
+  // --- Disappearing Messages ---
+  const describeExpiryTimer = (expiryMs: number): string => {
+    return MESSAGE_EXPIRY_TIMER_OPTIONS.find(option => option.value === expiryMs)?.label || `${Math.round(expiryMs / 60000)} minutes`;
+  };
 
-        if (!secret) {
-          console.error(`Cannot send message to ${user.username}: No shared secret available.`);
-          return;
-        }
+  // Sets the timer of the open conversation for both sides; messages sent from now on disappear after it
+  const setExpiryTimer = async (expiryMs: number) => {
+    const target = activeChatTargetRef.current;
+    const conversation = target === 'ROOM' ? 'ROOM' : activeChatUsernameRef.current;
+    if (!conversation || !isExpiryTimerOption(expiryMs)) return;
+
+    const route = prepareSend(target, activeChatUsernameRef.current);
+    if (!route || !(await sendControlMessage({ kind: 'expiry-timer', expiryMs }, route))) {
+      addSystemMessage("Could not change the disappearing messages timer.", SystemMessageType.ERROR,
+        route?.isDirect ? { isDirect: true, peerId: target, peerUsername: conversation } : undefined);
+      return;
+    }
 
-        const encrypted = await encryptText(text, secret);
-        if (encrypted) {
-          const payload: EncryptedTextMessage = {
-            id: msgId,
-            timestamp,
-            type: MessageType.TEXT,
-            senderPublicKeyJwkString: publicKeyString,
-            encryptedDataB64: encrypted.encryptedDataB64,
-            ivB64: encrypted.ivB64,
-            isDirect: false
-          };
+    applyExpiryTimer(conversation, expiryMs, Date.now());
+    addSystemMessage(expiryMs > 0 ? `You set disappearing messages to ${describeExpiryTimer(expiryMs)}.` : "You turned off disappearing messages.",
+      SystemMessageType.GENERAL, route.isDirect ? { isDirect: true, peerId: target, peerUsername: conversation } : undefined);
+  };
 
-          socketRef.current?.emit('send-message', {
-            targetSocketId: user.socketId,
-            targetUsername: user.username, // Critical Fix: Allow server to route to latest socket for this username
-            payload,
-            senderUsername: userIdentity?.username
-          });
-        }
-      });
+  // Control messages arrive through the same encrypted, signed channel as chat text
+  const handleControlMessage = (plaintext: string, sender: { socketId: string, username: string, isDirect: boolean, sentAt: number }) => {
+    let control: ControlMessage;
+    try {
+      control = JSON.parse(plaintext);
+    } catch (e) {
+      console.warn(`Ignored a malformed control message from ${sender.username}:`, e);
+      return;
+    }
+
+    const options = sender.isDirect ? { isDirect: true, peerId: sender.socketId, peerUsername: sender.username } : undefined;
+    switch (control.kind) {
+      case 'expiry-timer': {
+        if (!isExpiryTimerOption(control.expiryMs)) return;
+        applyExpiryTimer(sender.isDirect ? sender.username : 'ROOM', control.expiryMs, sender.sentAt);
+        addSystemMessage(control.expiryMs > 0
+          ? `${sender.username} set disappearing messages to ${describeExpiryTimer(control.expiryMs)}.`
+          : `${sender.username} turned off disappearing messages.`, SystemMessageType.GENERAL, options);
+        break;
+      }
+      case 'receipt': {
+        if ((control.receipt !== 'delivered' && control.receipt !== 'read') || !Array.isArray(control.messageIds)) return;
+        handleReceipt(control.receipt, control.messageIds.filter(id => typeof id === 'string').slice(0, MAX_RECEIPT_IDS), sender.username);
+        break;
+      }
+      case 'edit':
+      case 'delete': {
+        if (typeof control.messageId !== 'string' || (control.kind === 'edit' && (typeof control.text !== 'string' || !control.text.trim()))) return;
+        // Only the original sender's own message, and only within our edit window of its sending time
+        const mayChange = (message: DecryptedMessage) => !message.senderIsSelf && !message.isSystem && !message.isDeleted
+          && message.senderName === sender.username && sender.sentAt - message.timestamp <= getMessageEditWindow();
+        updateConversationMessage(sender.isDirect ? sender.username : 'ROOM', control.messageId, message => {
+          if (!mayChange(message)) return null;
+          return control.kind === 'edit'
+            ? { ...message, text: control.text, editedAt: sender.sentAt }
+            : { ...message, text: undefined, isDeleted: true };
+        });
+        break;
+      }
+      case 'reaction': {
+        if (typeof control.messageId !== 'string' || !REACTION_EMOJIS.includes(control.emoji) || (control.action !== 'add' && control.action !== 'remove')) return;
+        // Updates the reacted-to message in place: no new entry and no unread count
+        updateConversationMessage(sender.isDirect ? sender.username : 'ROOM', control.messageId, message => message.isSystem || message.isDeleted
+          ? null
+          : applyReaction(message, control.emoji, sender.username, control.action === 'add'));
+        break;
+      }
+      default:
+        console.warn(`Ignored an unknown control message from ${sender.username}.`);
     }
   };
 
+  // --- Editing and Deleting Sent Messages ---
+  // Applies a change to one message of a conversation; `update` returns null to leave it as it is
+  const updateConversationMessage = (conversation: string, messageId: string, update: (message: DecryptedMessage) => DecryptedMessage | null) => {
+    const apply = (messages: DecryptedMessage[]) => messages.map(m => m.id === messageId ? (update(m) ?? m) : m);
+    if (conversation === 'ROOM') {
+      setRoomMessages(prev => apply(prev));
+    } else {
+      setDirectMessages(prev => prev[conversation] ? { ...prev, [conversation]: apply(prev[conversation]) } : prev);
+    }
+  };
+
+  // Sends an edit or delete for one of our messages in the open conversation, then applies it locally
+  const changeOwnMessage = async (control: Extract<ControlMessage, { kind: 'edit' | 'delete' }>): Promise<boolean> => {
+    const original = messages.find(m => m.id === control.messageId);
+    if (!original || !original.senderIsSelf || original.isDeleted || Date.now() - original.timestamp > getMessageEditWindow()) return false;
+
+    const conversation = activeChatTarget === 'ROOM' ? 'ROOM' : activeChatUsername;
+    const route = prepareSend(activeChatTarget, activeChatUsername);
+    if (!conversation || !route || !(await sendControlMessage(control, route))) return false;
+
+    updateConversationMessage(conversation, control.messageId, message => control.kind === 'edit'
+      ? { ...message, text: control.text, editedAt: Date.now() }
+      : { ...message, text: undefined, isDeleted: true });
+    return true;
+  };
+
+  const editMessage = (messageId: string, text: string) => changeOwnMessage({ kind: 'edit', messageId, text });
+  const deleteMessage = (messageId: string) => changeOwnMessage({ kind: 'delete', messageId });
+
+  // --- Reactions ---
+  // Adds our reaction to a message of the open conversation, or removes it if it is already there
+  const toggleReaction = async (messageId: string, emoji: string): Promise<boolean> => {
+    const target = messages.find(m => m.id === messageId);
+    const username = userIdentity?.username;
+    if (!target || target.isSystem || target.isDeleted || !username || !REACTION_EMOJIS.includes(emoji)) return false;
+
+    const add = !target.reactions?.[emoji]?.includes(username);
+    const conversation = activeChatTarget === 'ROOM' ? 'ROOM' : activeChatUsername;
+    const route = prepareSend(activeChatTarget, activeChatUsername);
+    if (!conversation || !route || !(await sendControlMessage({ kind: 'reaction', messageId, emoji, action: add ? 'add' : 'remove' }, route))) return false;
+
+    updateConversationMessage(conversation, messageId, message => applyReaction(message, emoji, username, add));
+    return true;
+  };
+
+  // Sweeper: wakes at the earliest expiry and drops expired messages along with finished transfers and their file data
+  useEffect(() => {
+    const expiries = [
+      ...roomMessages.map(m => m.expiresAt),
+      ...Object.values(directMessages).flatMap(messages => messages.map(m => m.expiresAt)),
+      ...Object.values(activeTransfers).filter(isSweepableTransfer).map(t => t.expiresAt)
+    ].filter((expiresAt): expiresAt is number => expiresAt !== undefined);
+    if (expiries.length === 0) return;
+
+    const timer = setTimeout(() => {
+      const now = Date.now();
+      const isLive = (message: DecryptedMessage) => !message.expiresAt || message.expiresAt > now;
+      setRoomMessages(prev => prev.every(isLive) ? prev : prev.filter(isLive));
+      setDirectMessages(prev => {
+        if (Object.values(prev).every(messages => messages.every(isLive))) return prev;
+        return Object.fromEntries(Object.entries(prev).map(([username, messages]) => [username, messages.filter(isLive)]));
+      });
+
+      const expiredTransfers = Object.values(activeTransfersRef.current)
+        .filter(t => isSweepableTransfer(t) && t.expiresAt! <= now)
+        .map(t => t.transferId);
+      if (expiredTransfers.length === 0) return;
+      expiredTransfers.forEach(transferId => {
+        fileChunksRef.current.delete(transferId);
+        fileKeysRef.current.delete(transferId);
+        (window as any).pendingFileChunks?.delete(transferId);
+        delete activeTransfersRef.current[transferId];
+      });
+      setActiveTransfers(prev => {
+        const next = { ...prev };
+        expiredTransfers.forEach(transferId => delete next[transferId]);
+        return next;
+      });
+    }, Math.max(0, Math.min(...expiries) - Date.now()));
+    return () => clearTimeout(timer);
+  }, [roomMessages, directMessages, activeTransfers]);
+
+  // --- Received File URLs ---
+  // Closing a chat revokes its file URLs; the messages stay, without their previews
+  const releaseFileUrls = (username: string) => {
+    const released = new Set<string>();
+    fileUrlsRef.current.forEach(({ url, conversation }, messageId) => {
+      if (conversation !== username) return;
+      URL.revokeObjectURL(url);
+      fileUrlsRef.current.delete(messageId);
+      released.add(messageId);
+    });
+    if (released.size === 0) return;
+
+    setDirectMessages(prev => prev[username] ? {
+      ...prev,
+      [username]: prev[username].map(m => released.has(m.id) ? { ...m, fileUrl: undefined } : m)
+    } : prev);
+  };
+
+  // Any other way a file message goes away (expiry, leaving, panic) is caught here
+  useEffect(() => {
+    if (fileUrlsRef.current.size === 0) return;
+    const liveIds = new Set([...roomMessages, ...Object.values(directMessages).flat()].map(m => m.id));
+    fileUrlsRef.current.forEach(({ url }, messageId) => {
+      if (liveIds.has(messageId)) return;
+      URL.revokeObjectURL(url);
+      fileUrlsRef.current.delete(messageId);
+    });
+  }, [roomMessages, directMessages]);
+
+  useEffect(() => () => {
+    fileUrlsRef.current.forEach(({ url }) => URL.revokeObjectURL(url));
+    fileUrlsRef.current.clear();
+  }, []);
+
+  // Legacy entry point: offers now always go through the encrypted chunked transfer
   const sendFileOffer = (file: File, targetSocketId: string) => {
-    if (!socketRef.current) return;
-    const fileMetadata = {
-      name: file.name,
-      size: file.size,
-      type: file.type
-    };
-    socketRef.current.emit('file-offer', { targetSocketId, fileMetadata });
-    addSystemMessage(`Offered file ${file.name} to user.`, SystemMessageType.GENERAL);
+    startFileTransfer(file, targetSocketId);
   };
 
   const acceptFileOffer = (senderSocketId: string) => {
@@ -1429,12 +3115,21 @@ export const ChatProvider: React.FC<{ children: ReactNode }> = ({ children }) =>
     roomId,
     joinRoom,
     leaveRoom,
+    isRoomProtected,
+    roomJoinError,
+    createInviteLink,
     userIdentity,
     ownKeyPair,
     activeUsers,
     messages,
     directMessages,
     sendMessage,
+    expiryTimer: (activeChatTarget === 'ROOM' ? expiryTimers['ROOM'] : activeChatUsername ? expiryTimers[activeChatUsername] : undefined) ?? DEFAULT_MESSAGE_EXPIRY_MS,
+    setExpiryTimer,
+    markConversationRead,
+    editMessage,
+    deleteMessage,
+    toggleReaction,
     sendFileOffer,
     acceptFileOffer,
     declineFileOffer,
@@ -1455,6 +3150,8 @@ export const ChatProvider: React.FC<{ children: ReactNode }> = ({ children }) =>
     acceptDirectChat,
     closeDirectChat,
     getSafetyNumber,
+    verifiedUsers,
+    setPeerVerified,
     fetchServerStats,
     typingUsers,
     sendTyping,
@@ -1463,7 +3160,21 @@ export const ChatProvider: React.FC<{ children: ReactNode }> = ({ children }) =>
     checkUserOnline,
     refreshActiveUsers,
     chatEnded,
-    resetChatEnded
+    resetChatEnded,
+    keyChangeAlerts,
+    confirmKeyChange,
+    isLocked,
+    isPasscodeSet,
+    unlockIdentity,
+    enablePasscode,
+    changePasscode,
+    removePasscode,
+    exportIdentity,
+    panic,
+    isWiped,
+    isEphemeral,
+    setEphemeralKeys,
+    rotateIdentityKeys
   };
 
   // Periodic Heartbeat
@@ -7,6 +7,10 @@ export enum MessageType {
   TEXT = 'TEXT',
   FILE_INFO = 'FILE_INFO',
   SYSTEM = 'SYSTEM',
+  SENDER_KEY_DISTRIBUTION = 'SENDER_KEY_DISTRIBUTION',
+  ROOM_AUTH = 'ROOM_AUTH',
+  KEY_UPDATE = 'KEY_UPDATE',
+  ROOM_RECEIPT = 'ROOM_RECEIPT',
   // Signaling types (handled via Socket.io now, but good to keep for reference or fallback)
   PUBLIC_KEY_SHARE = 'PUBLIC_KEY_SHARE',
   SDP_OFFER = 'SDP_OFFER',
@@ -18,6 +22,8 @@ export interface UserProfile {
   socketId: string;
   username: string;
   publicKey: JsonWebKey;
+  signingKey?: JsonWebKey; // Long-term identity signing key (Ed25519 or ECDSA P-256)
+  suites?: string[]; // Advertised cipher suites, most preferred first; absent on older clients
   avatarColor?: string; // Optional, generated locally
   isOnline?: boolean;
 }
@@ -37,6 +43,36 @@ export interface BaseMessage {
   timestamp: number;
   senderPublicKeyJwkString: string; // Stringified JWK of sender's ECDH public key
   type: MessageType;
+  version?: number; // Protocol version; absent means 1
+  suite?: string;   // Cipher suite the payload was made with; absent means the legacy P-256/AES-GCM suite
+  // Signed envelope: binds the sender and intended recipient to the ciphertext
+  senderUsername?: string;
+  recipient?: string;    // Target username, or the room id for room messages
+  signatureB64?: string; // Sender's identity signature over all other fields
+}
+
+// Double Ratchet header, authenticated as associated data of each direct message
+export interface RatchetHeader {
+  dh: JsonWebKey; // Sender's current ratchet public key
+  pn: number;     // Length of the sender's previous sending chain
+  n: number;      // Message number in the current sending chain
+}
+
+// X3DH-like session setup sent by the initiator of a direct chat
+export interface X3DHHandshake {
+  identityKey: JsonWebKey;  // Initiator's long-term ECDH public key
+  ephemeralKey: JsonWebKey; // One-time key, also the initiator's first ratchet key
+}
+
+// Handshake in a direct-chat-request, signed like a message envelope
+export interface SignedHandshake {
+  handshake: X3DHHandshake;
+  senderUsername: string;
+  recipient: string;
+  timestamp: number;
+  version?: number;
+  suite?: string;
+  signatureB64?: string;
 }
 
 export interface EncryptedTextMessage extends BaseMessage {
@@ -44,6 +80,63 @@ export interface EncryptedTextMessage extends BaseMessage {
   encryptedDataB64: string; // Base64 encoded encrypted ArrayBuffer
   ivB64: string; // Base64 encoded IV (Uint8Array)
   isDirect?: boolean; // Added for DM distinction
+  ratchetHeader?: RatchetHeader; // Present on Double Ratchet direct messages
+  handshake?: X3DHHandshake;     // Repeated until the recipient has replied
+  senderKeyId?: string;          // Room messages: which of the sender's keys was used
+  senderKeyIteration?: number;   // Room messages: position in that sender key's chain
+  control?: boolean;             // Plaintext is a ControlMessage (JSON), not chat text
+}
+
+// Plaintext of a chat message (protocol version 3+); nothing in it is visible to the relay
+export interface MessageContent {
+  text: string;
+  replyTo?: string; // Id of the message being answered, in the same conversation
+  expiryMs?: number; // Sender's disappearing messages timer when it was sent, 0 when off
+  expirySetAt?: number; // When that timer was set, so a member who never saw it set cannot roll it back
+}
+
+// Conversation settings exchanged through the encrypted channel
+export type ControlMessage =
+  | { kind: 'expiry-timer'; expiryMs: number } // One of MESSAGE_EXPIRY_TIMER_OPTIONS; 0 turns it off
+  | { kind: 'receipt'; receipt: 'delivered' | 'read'; messageIds: string[] }
+  | { kind: 'edit'; messageId: string; text: string } // Only the original sender, within the edit window
+  | { kind: 'delete'; messageId: string }
+  | { kind: 'reaction'; messageId: string; emoji: string; action: 'add' | 'remove' };
+
+// Progress of an outgoing message: relayed = accepted by the nexus, delivered/read = acked by every recipient
+export type MessageStatus = 'sending' | 'relayed' | 'delivered' | 'read' | 'failed';
+
+// A member's room sender key, sealed to each recipient with the pairwise secret
+export interface SenderKeyDistribution {
+  keyId: string;
+  chainKeyB64: string;
+  iteration: number;
+}
+
+export interface SenderKeyDistributionMessage extends BaseMessage {
+  type: MessageType.SENDER_KEY_DISTRIBUTION;
+  encryptedDataB64: string; // Encrypted, padded JSON of SenderKeyDistribution
+  ivB64: string;
+}
+
+// Receipts for room messages, sealed to the one member who sent them
+export interface RoomReceiptMessage extends BaseMessage {
+  type: MessageType.ROOM_RECEIPT;
+  encryptedDataB64: string; // Encrypted, padded JSON of a receipt ControlMessage
+  ivB64: string;
+}
+
+// Proof of knowing a protected room's passphrase, addressed to one member
+export interface RoomAuthMessage extends BaseMessage {
+  type: MessageType.ROOM_AUTH;
+  proofB64: string; // HMAC over the room id, both usernames and the prover's identity fingerprint
+}
+
+// Announces rotated identity keys; signed with the identity keys being retired
+export interface KeyUpdateMessage extends BaseMessage {
+  type: MessageType.KEY_UPDATE;
+  newPublicKey: JsonWebKey;
+  newSigningKey: JsonWebKey;
 }
 
 export interface FileInfo {
@@ -51,10 +144,19 @@ export interface FileInfo {
   size: number;
   fileType: string;
 }
+
+// Plaintext sealed inside EncryptedFileMessage; never sent to the relay in the clear
+export interface FileOfferInfo extends FileInfo {
+  transferId: string; // Must match the envelope id
+  totalChunks: number;
+  isDirect: boolean;
+  expiryMs?: number; // Sender's disappearing messages timer, as in MessageContent
+  expirySetAt?: number;
+}
+
 export interface EncryptedFileMessage extends BaseMessage {
   type: MessageType.FILE_INFO;
-  fileInfo: FileInfo;
-  encryptedFileInfoDataB64: string; // Base64 encoded encrypted ArrayBuffer of file info
+  encryptedFileInfoDataB64: string; // Base64 encoded encrypted, padded JSON of FileOfferInfo
   ivB64: string; // Base64 encoded IV
 }
 
@@ -93,8 +195,15 @@ export interface DecryptedMessage {
   isDirect?: boolean;      // Added for DM distinction
   text?: string;
   fileInfo?: FileInfo;
+  fileUrl?: string;   // Blob URL of a received file; revoked once the message is gone or the chat is closed
   isSystem?: boolean;
   systemType?: SystemMessageType;
+  expiresAt?: number; // Disappearing messages: removed by the sweeper once this passes
+  status?: MessageStatus; // Own messages only
+  replyTo?: string;       // Id of the quoted message; it may have expired or been deleted since
+  editedAt?: number;      // Set once the sender has edited the text
+  isDeleted?: boolean;    // Retracted by the sender; kept as a tombstone without its text
+  reactions?: Record<string, string[]>; // Emoji -> usernames of the reactors, including our own
 }
 
 export interface BroadcastChannelMessage {
@@ -15,8 +15,18 @@ export interface FileTransferState {
     startTime: number;
     isDirect?: boolean;
     peerUsername?: string;
+    expiresAt?: number; // Disappearing messages: finished transfers and their data are dropped after this
+    suite?: string;     // Cipher suite of the file offer; its chunks are sealed under the same suite
 }
 
+// How a received file is shown inline; null means download only
+export type FilePreviewKind = 'image' | 'audio' | 'video' | 'text' | null;
+
+// SVG is left out on purpose: opened from its blob URL it would run scripts in our origin
+const PREVIEW_IMAGE_TYPES = ['image/png', 'image/jpeg', 'image/gif', 'image/webp', 'image/avif', 'image/bmp'];
+const PREVIEW_TEXT_TYPES = ['text/plain', 'text/markdown', 'text/csv', 'application/json'];
+const MAX_TEXT_PREVIEW_SIZE = 256 * 1024; // 256KB
+
 export class FileTransferManager {
     private static CHUNK_SIZE = 64 * 1024; // 64KB chunks
 
@@ -43,4 +53,20 @@ export class FileTransferManager {
         }
         return new Blob(sortedChunks, { type });
     }
+
+    // The file type is chosen by the sender, so only a fixed set of types is ever rendered
+    static previewKind(fileType: string, size: number): FilePreviewKind {
+        const type = fileType.split(';')[0].trim().toLowerCase();
+        if (PREVIEW_IMAGE_TYPES.includes(type)) return 'image';
+        if (type.startsWith('audio/')) return 'audio';
+        if (type.startsWith('video/')) return 'video';
+        if (PREVIEW_TEXT_TYPES.includes(type) && size <= MAX_TEXT_PREVIEW_SIZE) return 'text';
+        return null;
+    }
+
+    // Type given to the local blob: text is always served as plain text and unpreviewable files as opaque bytes
+    static localBlobType(fileType: string, preview: FilePreviewKind): string {
+        if (preview === 'text') return 'text/plain;charset=utf-8';
+        return preview ? fileType : 'application/octet-stream';
+    }
 }
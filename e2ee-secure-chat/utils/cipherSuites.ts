@@ -0,0 +1,93 @@
+// --- Protocol Version and Cipher Suites ---
+//
+// Every envelope names the protocol version and cipher suite it was made
+// with, and every client advertises the suites it implements in its profile.
+// A conversation uses the most preferred suite that all of its participants
+// support, so new primitives can be introduced without cutting off peers
+// that have not updated yet.
+
+// 1: initial envelope format
+// 2: plaintexts carry length-hiding padding (see encryptionService)
+// 3: chat text is sent as MessageContent JSON, so it can carry a reply reference
+export const PROTOCOL_VERSION = 3;
+
+/** Web Crypto parameters of a suite's AEAD; every encrypt and decrypt call takes them from here. */
+export interface AeadParameters {
+  name: 'AES-GCM';
+  ivLength: number;  // Bytes
+  tagLength: number; // Bits
+}
+
+export interface CipherSuite {
+  id: string;
+  keyAgreement: string; // Identity and ratchet key agreement
+  cipher: string;       // AEAD for messages, sender keys and file chunks
+  hash: string;         // HKDF / HMAC hash
+  aead: AeadParameters;
+}
+
+export const CIPHER_SUITES: Record<string, CipherSuite> = {
+  'P256-AESGCM-SHA256': {
+    id: 'P256-AESGCM-SHA256', keyAgreement: 'ECDH P-256', cipher: 'AES-256-GCM', hash: 'SHA-256',
+    aead: { name: 'AES-GCM', ivLength: 12, tagLength: 128 },
+  },
+  // Candidates once implemented in encryptionService:
+  // 'X25519-AESGCM-SHA256', 'X25519-CHACHA20POLY1305-SHA256'
+};
+
+/** Suites this client implements, most preferred first. */
+export const SUPPORTED_SUITES: string[] = ['P256-AESGCM-SHA256'];
+
+/** What peers and envelopes from before suite negotiation implicitly use. */
+export const LEGACY_SUITE = 'P256-AESGCM-SHA256';
+
+/** Looks up a suite this client implements; envelopes without a suite predate negotiation. */
+export const getCipherSuite = (suiteId: string = LEGACY_SUITE): CipherSuite => {
+  const suite = CIPHER_SUITES[suiteId];
+  if (!suite || !SUPPORTED_SUITES.includes(suiteId)) throw new Error(`Unsupported cipher suite ${suiteId}`);
+  return suite;
+};
+
+/** A fresh nonce of the length the suite's AEAD expects. */
+export const generateIv = (suiteId?: string): Uint8Array => crypto.getRandomValues(new Uint8Array(getCipherSuite(suiteId).aead.ivLength));
+
+/** Algorithm parameters for crypto.subtle.encrypt/decrypt under a suite. */
+export const aeadParams = (suiteId: string | undefined, iv: Uint8Array, additionalData?: Uint8Array): AesGcmParams => {
+  const { name, tagLength } = getCipherSuite(suiteId).aead;
+  return { name, iv, tagLength, ...(additionalData && { additionalData }) };
+};
+
+const advertisedSuites = (suites: string[] | undefined): string[] => (suites && suites.length > 0 ? suites : [LEGACY_SUITE]);
+
+/**
+ * Picks the most preferred of our suites that every peer also supports.
+ * Returns null when there is no overlap.
+ */
+export const negotiateSuite = (...peerSuites: Array<string[] | undefined>): string | null => {
+  return SUPPORTED_SUITES.find(suite => peerSuites.every(suites => advertisedSuites(suites).includes(suite))) || null;
+};
+
+/** Why this client cannot process an incoming envelope, or null if it can. */
+export const checkEnvelopeVersion = (envelope: { version?: number; suite?: string }): string | null => {
+  const version = envelope.version ?? 1;
+  if (!Number.isInteger(version) || version > PROTOCOL_VERSION) {
+    return `it uses protocol version ${version}, newer than this client's version ${PROTOCOL_VERSION}`;
+  }
+  const suite = envelope.suite ?? LEGACY_SUITE;
+  if (!SUPPORTED_SUITES.includes(suite)) {
+    return `it uses cipher suite ${suite}, which this client does not implement`;
+  }
+  return null;
+};
+
+/** Version 1 envelopes predate padding, so their plaintexts must not be unpadded. */
+export const hasPaddedPayload = (envelope: { version?: number }): boolean => (envelope.version ?? 1) >= 2;
+
+/** Before version 3 the plaintext of a chat message was the bare text. */
+export const hasStructuredContent = (envelope: { version?: number }): boolean => (envelope.version ?? 1) >= 3;
+
+/** Describes a failed negotiation for the user, naming what each side supports. */
+export const describeSuiteMismatch = (peerUsername: string, peerSuites: string[] | undefined): string => {
+  return `No cipher suite in common with ${peerUsername} (they support ${advertisedSuites(peerSuites).join(', ')}; ` +
+    `this client supports ${SUPPORTED_SUITES.join(', ')}). One of you needs to update.`;
+};
@@ -0,0 +1,93 @@
+import { describe, expect, it } from 'vitest';
+import { RatchetSession, initiateSession, ratchetDecrypt, ratchetEncrypt, respondToSession } from './doubleRatchet';
+import { generateAppKeyPair } from './encryptionService';
+
+// Alice starts the session from Bob's directory key; Bob answers from the handshake
+const startSessions = async (): Promise<{ alice: RatchetSession; bob: RatchetSession }> => {
+  const aliceIdentity = await generateAppKeyPair();
+  const bobIdentity = await generateAppKeyPair();
+  const bobPublicJwk = await crypto.subtle.exportKey('jwk', bobIdentity.publicKey);
+
+  const alice = await initiateSession(aliceIdentity, bobPublicJwk, 'bob');
+  const bob = await respondToSession(bobIdentity, alice.pendingHandshake!, 'alice');
+  return { alice, bob };
+};
+
+describe('ratchetEncrypt / ratchetDecrypt', () => {
+  it('round-trips messages in both directions across DH ratchet steps', async () => {
+    let { alice, bob } = await startSessions();
+
+    for (const [from, text] of [['alice', 'hi bob'], ['alice', 'are you there?'], ['bob', 'hi alice'], ['alice', 'good'], ['bob', 'bye']]) {
+      const sender = from === 'alice' ? alice : bob;
+      const receiver = from === 'alice' ? bob : alice;
+      const sent = await ratchetEncrypt(sender, text);
+      const received = await ratchetDecrypt(receiver, sent.header, sent.encryptedDataB64, sent.ivB64);
+
+      expect(received?.plaintext).toBe(text);
+      if (from === 'alice') {
+        alice = sent.session;
+        bob = received!.session;
+      } else {
+        bob = sent.session;
+        alice = received!.session;
+      }
+    }
+    expect(alice.pendingHandshake).toBeNull();
+  });
+
+  it('uses a new message key for every message', async () => {
+    const { alice } = await startSessions();
+    const first = await ratchetEncrypt(alice, 'same text');
+    const second = await ratchetEncrypt(first.session, 'same text');
+
+    expect(second.header.n).toBe(first.header.n + 1);
+    expect(second.encryptedDataB64).not.toBe(first.encryptedDataB64);
+  });
+
+  it('decrypts out-of-order messages with skipped message keys', async () => {
+    let { alice, bob } = await startSessions();
+    const sent = [];
+    for (const text of ['one', 'two', 'three']) {
+      const message = await ratchetEncrypt(alice, text);
+      alice = message.session;
+      sent.push(message);
+    }
+
+    const third = await ratchetDecrypt(bob, sent[2].header, sent[2].encryptedDataB64, sent[2].ivB64);
+    expect(third?.plaintext).toBe('three');
+    bob = third!.session;
+    expect(bob.skippedKeys.size).toBe(2);
+
+    const first = await ratchetDecrypt(bob, sent[0].header, sent[0].encryptedDataB64, sent[0].ivB64);
+    expect(first?.plaintext).toBe('one');
+    bob = first!.session;
+    const second = await ratchetDecrypt(bob, sent[1].header, sent[1].encryptedDataB64, sent[1].ivB64);
+    expect(second?.plaintext).toBe('two');
+    expect(second!.session.skippedKeys.size).toBe(0);
+  });
+
+  it('refuses a replayed message once its key is used', async () => {
+    const { alice, bob } = await startSessions();
+    const sent = await ratchetEncrypt(alice, 'only once');
+    const received = await ratchetDecrypt(bob, sent.header, sent.encryptedDataB64, sent.ivB64);
+
+    expect(received?.plaintext).toBe('only once');
+    expect(await ratchetDecrypt(received!.session, sent.header, sent.encryptedDataB64, sent.ivB64)).toBeNull();
+  });
+
+  it('refuses a tampered header without advancing the session', async () => {
+    const { alice, bob } = await startSessions();
+    const sent = await ratchetEncrypt(alice, 'untouched');
+
+    expect(await ratchetDecrypt(bob, { ...sent.header, pn: sent.header.pn + 1 }, sent.encryptedDataB64, sent.ivB64)).toBeNull();
+    expect(bob.recvCount).toBe(0);
+    expect((await ratchetDecrypt(bob, sent.header, sent.encryptedDataB64, sent.ivB64))?.plaintext).toBe('untouched');
+  });
+
+  it('refuses to derive more than MAX_SKIP keys ahead', async () => {
+    const { alice, bob } = await startSessions();
+    const sent = await ratchetEncrypt(alice, 'far ahead');
+
+    expect(await ratchetDecrypt(bob, { ...sent.header, n: 501 }, sent.encryptedDataB64, sent.ivB64)).toBeNull();
+  });
+});
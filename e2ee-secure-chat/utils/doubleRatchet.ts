@@ -0,0 +1,295 @@
+import { KeyPair, RatchetHeader, X3DHHandshake } from '../types';
+import {
+  arrayBufferToBase64,
+  base64ToArrayBuffer,
+  base64ToUint8Array,
+  concatBytes,
+  decodePaddedText,
+  DEFAULT_PADDING_POLICY,
+  encodePaddedText,
+  exportPublicKeyJwk,
+  importPublicKeyJwk,
+  kdfChainKey,
+  PaddingPolicy,
+  uint8ArrayToBase64,
+} from './encryptionService';
+import { aeadParams, generateIv } from './cipherSuites';
+
+// --- Double Ratchet (Signal-style) for direct messages ---
+//
+// Handshake (X3DH-like, no prekey server):
+//   The initiator A knows B's long-term identity key IK_B from the directory and
+//   generates an ephemeral key EK_A. SK = HKDF(DH(IK_A, IK_B) || DH(EK_A, IK_B)).
+//   EK_A doubles as A's first ratchet key, so B can start sending as soon as the
+//   handshake arrives, either in the direct-chat-request or on A's first message.
+// Afterwards every message advances a symmetric chain key, and every round trip
+// performs a DH ratchet step with fresh ephemeral keys.
+
+const MAX_SKIP = 500; // Max message keys derived ahead within a single chain
+const MAX_CACHED_SKIPPED_KEYS = 1000;
+const ROOT_INFO = 'benull-ratchet-root';
+const X3DH_INFO = 'benull-x3dh';
+
+const textEncoder = new TextEncoder();
+
+export interface RatchetSession {
+  peerUsername: string;
+  handshakeId: string; // Identifies the X3DH run that created this session
+  rootKey: Uint8Array;
+  dhSelf: KeyPair;
+  dhSelfPublicJwk: JsonWebKey;
+  dhRemote: CryptoKey;
+  dhRemoteId: string;
+  sendChainKey: Uint8Array;
+  recvChainKey: Uint8Array | null;
+  sendCount: number;
+  recvCount: number;
+  prevSendCount: number;
+  skippedKeys: Map<string, Uint8Array>; // `${dhId}:${n}` -> message key
+  pendingHandshake: X3DHHandshake | null; // Attached to outgoing messages until the peer replies
+}
+
+// --- Primitives ---
+
+export const publicKeyId = (jwk: JsonWebKey): string => `${jwk.x}.${jwk.y ?? ''}`;
+
+const generateRatchetKeyPair = async (): Promise<KeyPair> => {
+  return await crypto.subtle.generateKey(
+    { name: 'ECDH', namedCurve: 'P-256' },
+    false, // Ratchet private keys never leave memory
+    ['deriveBits']
+  ) as KeyPair;
+};
+
+const dh = async (privateKey: CryptoKey, publicKey: CryptoKey): Promise<Uint8Array> => {
+  const bits = await crypto.subtle.deriveBits({ name: 'ECDH', public: publicKey }, privateKey, 256);
+  return new Uint8Array(bits);
+};
+
+const hkdf = async (ikm: Uint8Array, salt: Uint8Array, info: string, bits: number): Promise<Uint8Array> => {
+  const baseKey = await crypto.subtle.importKey('raw', ikm, 'HKDF', false, ['deriveBits']);
+  const output = await crypto.subtle.deriveBits(
+    { name: 'HKDF', hash: 'SHA-256', salt, info: textEncoder.encode(info) },
+    baseKey,
+    bits
+  );
+  return new Uint8Array(output);
+};
+
+const kdfRootKey = async (rootKey: Uint8Array, dhOutput: Uint8Array): Promise<[Uint8Array, Uint8Array]> => {
+  const output = await hkdf(dhOutput, rootKey, ROOT_INFO, 512);
+  return [output.slice(0, 32), output.slice(32)];
+};
+
+const encodeHeaderAad = (header: RatchetHeader, associatedData: Uint8Array): Uint8Array => {
+  return concatBytes(textEncoder.encode(`${publicKeyId(header.dh)}|${header.pn}|${header.n}|`), associatedData);
+};
+
+const importMessageKey = (messageKey: Uint8Array, usage: KeyUsage): Promise<CryptoKey> => {
+  return crypto.subtle.importKey('raw', messageKey, { name: 'AES-GCM' }, false, [usage]);
+};
+
+const cloneSession = (session: RatchetSession): RatchetSession => ({
+  ...session,
+  skippedKeys: new Map(session.skippedKeys),
+});
+
+// --- Session Setup ---
+
+export const handshakeId = (handshake: X3DHHandshake): string => publicKeyId(handshake.ephemeralKey);
+
+export const initiateSession = async (
+  ownIdentity: KeyPair,
+  peerIdentityJwk: JsonWebKey,
+  peerUsername: string
+): Promise<RatchetSession> => {
+  const peerIdentity = await importPublicKeyJwk(peerIdentityJwk);
+  const ephemeral = await generateRatchetKeyPair();
+
+  const sharedKey = await hkdf(
+    concatBytes(await dh(ownIdentity.privateKey, peerIdentity), await dh(ephemeral.privateKey, peerIdentity)),
+    new Uint8Array(32),
+    X3DH_INFO,
+    256
+  );
+  const [rootKey, sendChainKey] = await kdfRootKey(sharedKey, await dh(ephemeral.privateKey, peerIdentity));
+
+  const handshake: X3DHHandshake = {
+    identityKey: await exportPublicKeyJwk(ownIdentity.publicKey),
+    ephemeralKey: await exportPublicKeyJwk(ephemeral.publicKey),
+  };
+
+  return {
+    peerUsername,
+    handshakeId: handshakeId(handshake),
+    rootKey,
+    dhSelf: ephemeral,
+    dhSelfPublicJwk: handshake.ephemeralKey,
+    dhRemote: peerIdentity,
+    dhRemoteId: publicKeyId(peerIdentityJwk),
+    sendChainKey,
+    recvChainKey: null,
+    sendCount: 0,
+    recvCount: 0,
+    prevSendCount: 0,
+    skippedKeys: new Map(),
+    pendingHandshake: handshake,
+  };
+};
+
+export const respondToSession = async (
+  ownIdentity: KeyPair,
+  handshake: X3DHHandshake,
+  peerUsername: string
+): Promise<RatchetSession> => {
+  const peerIdentity = await importPublicKeyJwk(handshake.identityKey);
+  const peerEphemeral = await importPublicKeyJwk(handshake.ephemeralKey);
+
+  const sharedKey = await hkdf(
+    concatBytes(await dh(ownIdentity.privateKey, peerIdentity), await dh(ownIdentity.privateKey, peerEphemeral)),
+    new Uint8Array(32),
+    X3DH_INFO,
+    256
+  );
+
+  // Mirror the initiator's first chain, then step the ratchet so we can send immediately
+  const [receivedRootKey, recvChainKey] = await kdfRootKey(sharedKey, await dh(ownIdentity.privateKey, peerEphemeral));
+  const dhSelf = await generateRatchetKeyPair();
+  const [rootKey, sendChainKey] = await kdfRootKey(receivedRootKey, await dh(dhSelf.privateKey, peerEphemeral));
+
+  return {
+    peerUsername,
+    handshakeId: handshakeId(handshake),
+    rootKey,
+    dhSelf,
+    dhSelfPublicJwk: await exportPublicKeyJwk(dhSelf.publicKey),
+    dhRemote: peerEphemeral,
+    dhRemoteId: publicKeyId(handshake.ephemeralKey),
+    sendChainKey,
+    recvChainKey,
+    sendCount: 0,
+    recvCount: 0,
+    prevSendCount: 0,
+    skippedKeys: new Map(),
+    pendingHandshake: null,
+  };
+};
+
+// --- Encrypt / Decrypt ---
+
+export const ratchetEncrypt = async (
+  session: RatchetSession,
+  plaintext: string,
+  associatedData: Uint8Array = new Uint8Array(0), // Envelope fields bound to the ciphertext
+  padding: PaddingPolicy = DEFAULT_PADDING_POLICY,
+  suite?: string // Negotiated cipher suite; the legacy suite when omitted
+): Promise<{ session: RatchetSession; header: RatchetHeader; encryptedDataB64: string; ivB64: string }> => {
+  const next = cloneSession(session);
+  const [sendChainKey, messageKey] = await kdfChainKey(next.sendChainKey);
+
+  const header: RatchetHeader = { dh: next.dhSelfPublicJwk, pn: next.prevSendCount, n: next.sendCount };
+  next.sendChainKey = sendChainKey;
+  next.sendCount += 1;
+
+  const iv = generateIv(suite);
+  const ciphertext = await crypto.subtle.encrypt(
+    aeadParams(suite, iv, encodeHeaderAad(header, associatedData)),
+    await importMessageKey(messageKey, 'encrypt'),
+    encodePaddedText(plaintext, padding)
+  );
+  messageKey.fill(0);
+
+  return {
+    session: next,
+    header,
+    encryptedDataB64: arrayBufferToBase64(ciphertext),
+    ivB64: uint8ArrayToBase64(iv),
+  };
+};
+
+const skipMessageKeys = async (session: RatchetSession, until: number): Promise<void> => {
+  if (!session.recvChainKey) return;
+  if (until - session.recvCount > MAX_SKIP) {
+    throw new Error(`Too many skipped messages (${until - session.recvCount})`);
+  }
+  while (session.recvCount < until) {
+    const [recvChainKey, messageKey] = await kdfChainKey(session.recvChainKey);
+    session.skippedKeys.set(`${session.dhRemoteId}:${session.recvCount}`, messageKey);
+    session.recvChainKey = recvChainKey;
+    session.recvCount += 1;
+  }
+  // Evict the oldest cached keys (Map preserves insertion order)
+  while (session.skippedKeys.size > MAX_CACHED_SKIPPED_KEYS) {
+    const oldest = session.skippedKeys.keys().next().value as string;
+    session.skippedKeys.delete(oldest);
+  }
+};
+
+const dhRatchetStep = async (session: RatchetSession, header: RatchetHeader): Promise<void> => {
+  session.prevSendCount = session.sendCount;
+  session.sendCount = 0;
+  session.recvCount = 0;
+  session.dhRemote = await importPublicKeyJwk(header.dh);
+  session.dhRemoteId = publicKeyId(header.dh);
+
+  const [receivedRootKey, recvChainKey] = await kdfRootKey(session.rootKey, await dh(session.dhSelf.privateKey, session.dhRemote));
+  session.recvChainKey = recvChainKey;
+
+  session.dhSelf = await generateRatchetKeyPair();
+  session.dhSelfPublicJwk = await exportPublicKeyJwk(session.dhSelf.publicKey);
+  const [rootKey, sendChainKey] = await kdfRootKey(receivedRootKey, await dh(session.dhSelf.privateKey, session.dhRemote));
+  session.rootKey = rootKey;
+  session.sendChainKey = sendChainKey;
+};
+
+/**
+ * Decrypts a ratchet message. The session is never mutated: on success the
+ * advanced state is returned, on failure (tampering, replay, desync) null.
+ */
+export const ratchetDecrypt = async (
+  session: RatchetSession,
+  header: RatchetHeader,
+  encryptedDataB64: string,
+  ivB64: string,
+  associatedData: Uint8Array = new Uint8Array(0),
+  padded = true,
+  suite?: string
+): Promise<{ session: RatchetSession; plaintext: string } | null> => {
+  try {
+    const next = cloneSession(session);
+    const headerDhId = publicKeyId(header.dh);
+    const skippedId = `${headerDhId}:${header.n}`;
+
+    let messageKey = next.skippedKeys.get(skippedId);
+    if (messageKey) {
+      next.skippedKeys.delete(skippedId);
+    } else {
+      if (headerDhId !== next.dhRemoteId) {
+        await skipMessageKeys(next, header.pn);
+        await dhRatchetStep(next, header);
+      }
+      if (!next.recvChainKey) return null;
+      await skipMessageKeys(next, header.n);
+      if (header.n < next.recvCount) return null; // Already consumed
+
+      const [recvChainKey, derivedKey] = await kdfChainKey(next.recvChainKey);
+      next.recvChainKey = recvChainKey;
+      next.recvCount += 1;
+      messageKey = derivedKey;
+    }
+
+    const plaintext = await crypto.subtle.decrypt(
+      aeadParams(suite, base64ToUint8Array(ivB64), encodeHeaderAad(header, associatedData)),
+      await importMessageKey(messageKey, 'decrypt'),
+      base64ToArrayBuffer(encryptedDataB64)
+    );
+    messageKey.fill(0);
+
+    // Any reply proves the peer holds the session, so stop re-sending the handshake
+    next.pendingHandshake = null;
+    return { session: next, plaintext: decodePaddedText(new Uint8Array(plaintext), padded) };
+  } catch (error) {
+    console.error("Ratchet decryption failed:", error);
+    return null;
+  }
+};
@@ -0,0 +1,132 @@
+import { describe, expect, it } from 'vitest';
+import {
+  PaddingPolicy,
+  decodePaddedText,
+  decryptText,
+  encodePaddedText,
+  encryptFileChunk,
+  encryptText,
+  padPlaintext,
+  paddedLength,
+  unpadPlaintext,
+} from './encryptionService';
+import { PROTOCOL_VERSION, SUPPORTED_SUITES } from './cipherSuites';
+import { encodeMessageAad } from './envelope';
+
+const POLICIES: PaddingPolicy[] = ['padme', 'buckets', 'none'];
+const LENGTHS = [0, 1, 2, 3, 127, 128, 129, 255, 256, 1000, 4095, 4096, 70000];
+
+const bytesOfLength = (length: number): Uint8Array => {
+  const bytes = new Uint8Array(length);
+  for (let i = 0; i < length; i++) bytes[i] = i % 256; // Includes 0x00 and 0x80 inside the data
+  return bytes;
+};
+
+const aesKey = () => crypto.subtle.generateKey({ name: 'AES-GCM', length: 256 }, false, ['encrypt', 'decrypt']);
+
+describe('paddedLength', () => {
+  it('never shrinks the input', () => {
+    for (const policy of POLICIES) {
+      for (const length of LENGTHS) {
+        expect(paddedLength(length, policy)).toBeGreaterThanOrEqual(length);
+      }
+    }
+  });
+
+  it('puts short messages in the same size class', () => {
+    expect(paddedLength('yes'.length + 1, 'padme')).toBe(paddedLength('no'.length + 1, 'padme'));
+    expect(paddedLength(5, 'buckets')).toBe(256);
+    expect(paddedLength(257, 'buckets')).toBe(1024);
+    expect(paddedLength(65537, 'buckets')).toBe(131072);
+  });
+
+  it('keeps padmé overhead under 12% for large inputs', () => {
+    for (const length of [1000, 4097, 70000, 1234567]) {
+      expect(paddedLength(length, 'padme') / length).toBeLessThan(1.12);
+    }
+  });
+});
+
+describe('padPlaintext / unpadPlaintext', () => {
+  it('round-trips every length under every policy', () => {
+    for (const policy of POLICIES) {
+      for (const length of LENGTHS) {
+        const data = bytesOfLength(length);
+        const padded = padPlaintext(data, policy);
+        expect(padded.byteLength).toBe(paddedLength(length + 1, policy));
+        expect(unpadPlaintext(padded)).toEqual(data);
+      }
+    }
+  });
+
+  it('rejects data without a padding marker', () => {
+    expect(() => unpadPlaintext(new Uint8Array([0x61, 0x62]))).toThrow('Invalid padding');
+    expect(() => unpadPlaintext(new Uint8Array(16))).toThrow('Invalid padding');
+    expect(() => unpadPlaintext(new Uint8Array(0))).toThrow('Invalid padding');
+  });
+});
+
+describe('encodePaddedText / decodePaddedText', () => {
+  it('round-trips unicode text', () => {
+    for (const text of ['', 'yes', 'À', '€', 'hello 👋 world', 'x'.repeat(5000)]) {
+      for (const policy of POLICIES) {
+        expect(decodePaddedText(encodePaddedText(text, policy))).toBe(text);
+      }
+    }
+  });
+
+  it('reads unpadded payloads from version 1 peers as-is', () => {
+    expect(decodePaddedText(new TextEncoder().encode('À'), false)).toBe('À');
+  });
+});
+
+describe('encryptText / decryptText', () => {
+  it('round-trips through AES-GCM with associated data', async () => {
+    const key = await aesKey();
+    const aad = new TextEncoder().encode('envelope');
+    for (const policy of POLICIES) {
+      const encrypted = await encryptText('pasted password', key, aad, policy);
+      expect(encrypted).not.toBeNull();
+      expect(await decryptText(encrypted!.encryptedDataB64, encrypted!.ivB64, key, aad)).toBe('pasted password');
+    }
+  });
+
+  it('hides the difference between short messages', async () => {
+    const key = await aesKey();
+    const short = await encryptText('no', key);
+    const longer = await encryptText('a somewhat longer reply', key);
+    expect(short!.encryptedDataB64.length).toBe(longer!.encryptedDataB64.length);
+  });
+
+  it('fails on mismatched associated data', async () => {
+    const key = await aesKey();
+    const encrypted = await encryptText('hi', key, new TextEncoder().encode('a'));
+    expect(await decryptText(encrypted!.encryptedDataB64, encrypted!.ivB64, key, new TextEncoder().encode('b'))).toBeNull();
+  });
+});
+
+describe('suite-bound associated data', () => {
+  const envelope = { id: 'm1', timestamp: 1, type: 'text', senderUsername: 'alice', isDirect: true };
+
+  it('fails when the version or suite of an envelope is changed', async () => {
+    const key = await aesKey();
+    const sent = { ...envelope, version: PROTOCOL_VERSION, suite: SUPPORTED_SUITES[0] };
+    const encrypted = await encryptText('hi', key, encodeMessageAad(sent), 'padme', sent.suite);
+    const decrypt = (received: typeof sent) =>
+      decryptText(encrypted!.encryptedDataB64, encrypted!.ivB64, key, encodeMessageAad(received), true, received.suite);
+
+    expect(await decrypt(sent)).toBe('hi');
+    expect(await decrypt({ ...sent, version: PROTOCOL_VERSION + 1 })).toBeNull();
+    expect(await decrypt({ ...sent, suite: 'X25519-AES256GCM' })).toBeNull();
+  });
+
+  it('leaves the associated data of unversioned envelopes unchanged', () => {
+    expect(new TextDecoder().decode(encodeMessageAad(envelope)))
+      .toBe('{"id":"m1","isDirect":true,"sender":"alice","timestamp":1,"type":"text"}');
+  });
+
+  it('rejects suites it does not implement', async () => {
+    const key = await aesKey();
+    await expect(encryptFileChunk(new ArrayBuffer(4), key, 't1', 0, 'X25519-AES256GCM')).rejects.toThrow();
+  });
+});
@@ -1,4 +1,5 @@
 import { KeyPair } from '../types';
+import { aeadParams, generateIv, getCipherSuite } from './cipherSuites';
 
 // --- Base64 Helpers for ArrayBuffer/Uint8Array ---
 
@@ -30,17 +31,89 @@ export const base64ToUint8Array = (base64: string): Uint8Array => {
   return new Uint8Array(base64ToArrayBuffer(base64));
 };
 
+export const concatBytes = (...parts: Uint8Array[]): Uint8Array => {
+  const out = new Uint8Array(parts.reduce((len, p) => len + p.byteLength, 0));
+  let offset = 0;
+  for (const part of parts) {
+    out.set(part, offset);
+    offset += part.byteLength;
+  }
+  return out;
+};
+
+// --- Length-Hiding Padding ---
+//
+// Plaintexts are padded before encryption so the relay only learns a coarse
+// size class. The marker scheme (0x80, then zero bytes) is the same for every
+// policy, so the receiver strips padding without knowing the sender's policy.
+
+export type PaddingPolicy = 'padme' | 'buckets' | 'none';
+
+export const DEFAULT_PADDING_POLICY: PaddingPolicy = 'padme';
+
+const PADME_MIN_LENGTH = 128; // Padmé alone barely pads short inputs, which are the ones most worth hiding
+const PADDING_BUCKETS = [256, 1024, 4096, 16384, 65536]; // Beyond the last bucket: multiples of it
+
+/**
+ * Size a plaintext of `length` bytes (marker included) is padded to.
+ * Padmé leaks O(log log n) bits of the length with at most ~12% overhead;
+ * buckets leak less for short messages at a higher cost.
+ */
+export const paddedLength = (length: number, policy: PaddingPolicy): number => {
+  switch (policy) {
+    case 'none':
+      return length;
+    case 'buckets': {
+      const bucket = PADDING_BUCKETS.find(size => size >= length);
+      const largest = PADDING_BUCKETS[PADDING_BUCKETS.length - 1];
+      return bucket ?? Math.ceil(length / largest) * largest;
+    }
+    case 'padme': {
+      if (length <= PADME_MIN_LENGTH) return PADME_MIN_LENGTH;
+      const exponent = Math.floor(Math.log2(length));
+      const lastBits = exponent - (Math.floor(Math.log2(exponent)) + 1);
+      const step = 2 ** lastBits;
+      return Math.ceil(length / step) * step;
+    }
+  }
+};
+
+export const padPlaintext = (data: Uint8Array, policy: PaddingPolicy = DEFAULT_PADDING_POLICY): Uint8Array => {
+  const padded = new Uint8Array(paddedLength(data.byteLength + 1, policy));
+  padded.set(data);
+  padded[data.byteLength] = 0x80;
+  return padded;
+};
+
+export const unpadPlaintext = (padded: Uint8Array): Uint8Array => {
+  let end = padded.byteLength - 1;
+  while (end >= 0 && padded[end] === 0x00) end--;
+  if (end < 0 || padded[end] !== 0x80) {
+    throw new Error("Invalid padding");
+  }
+  return padded.slice(0, end);
+};
+
+export const encodePaddedText = (text: string, policy: PaddingPolicy = DEFAULT_PADDING_POLICY): Uint8Array => {
+  return padPlaintext(new TextEncoder().encode(text), policy);
+};
+
+/** Inverse of encodePaddedText. Payloads of protocol version 1 were not padded; pass `padded = false` for those. */
+export const decodePaddedText = (data: Uint8Array, padded = true): string => {
+  return new TextDecoder().decode(padded ? unpadPlaintext(data) : data);
+};
+
 // --- Web Crypto API Functions ---
 
-export const generateAppKeyPair = async (): Promise<KeyPair> => {
+export const generateAppKeyPair = async (extractable = false): Promise<KeyPair> => {
   try {
     const keyPair = await crypto.subtle.generateKey(
       {
         name: 'ECDH',
         namedCurve: 'P-256',
       },
-      true, // Can be exported (own private key needs to be exportable if you ever wanted to store it, though not used here)
-      ['deriveKey'] // Usage for private key
+      extractable, // Only true briefly, so the private key can be wrapped under a passcode
+      ['deriveKey', 'deriveBits'] // deriveBits feeds the X3DH handshake of the Double Ratchet
     );
     // Ensure the generated keys are indeed CryptoKey for publicKey and privateKey
     if (!keyPair.publicKey || !keyPair.privateKey) {
@@ -53,6 +126,55 @@ export const generateAppKeyPair = async (): Promise<KeyPair> => {
   }
 };
 
+// --- Identity Signing Keys ---
+
+const signingParams = (key: CryptoKey): AlgorithmIdentifier | EcdsaParams => {
+  return key.algorithm.name === 'Ed25519' ? { name: 'Ed25519' } : { name: 'ECDSA', hash: 'SHA-256' };
+};
+
+/**
+ * Generates the long-term identity signing key pair. Ed25519 is preferred
+ * where the browser supports it; ECDSA P-256 is the fallback.
+ */
+export const generateSigningKeyPair = async (extractable = false): Promise<KeyPair> => {
+  try {
+    return await crypto.subtle.generateKey({ name: 'Ed25519' }, extractable, ['sign', 'verify']) as KeyPair;
+  } catch {
+    // Ed25519 not available in this browser
+  }
+  try {
+    return await crypto.subtle.generateKey({ name: 'ECDSA', namedCurve: 'P-256' }, extractable, ['sign', 'verify']) as KeyPair;
+  } catch (error) {
+    console.error("Error generating signing key pair:", error);
+    throw new Error(`Signing key generation failed: ${error instanceof Error ? error.message : String(error)}`);
+  }
+};
+
+export const importSigningPublicKeyJwk = async (jwk: JsonWebKey): Promise<CryptoKey> => {
+  try {
+    const algorithm = jwk.kty === 'OKP' && jwk.crv === 'Ed25519'
+      ? { name: 'Ed25519' }
+      : { name: 'ECDSA', namedCurve: 'P-256' };
+    return await crypto.subtle.importKey('jwk', jwk, algorithm, true, ['verify']);
+  } catch (error) {
+    console.error("Error importing signing key from JWK:", error);
+    throw new Error(`Signing key import failed: ${error instanceof Error ? error.message : String(error)}`);
+  }
+};
+
+export const signData = async (data: Uint8Array, privateKey: CryptoKey): Promise<string> => {
+  const signature = await crypto.subtle.sign(signingParams(privateKey), privateKey, data);
+  return arrayBufferToBase64(signature);
+};
+
+export const verifySignature = async (data: Uint8Array, signatureB64: string, publicKey: CryptoKey): Promise<boolean> => {
+  try {
+    return await crypto.subtle.verify(signingParams(publicKey), publicKey, base64ToArrayBuffer(signatureB64), data);
+  } catch (error) {
+    return false;
+  }
+};
+
 export const exportPublicKeyJwk = async (publicKey: CryptoKey): Promise<JsonWebKey> => {
   try {
     return await crypto.subtle.exportKey('jwk', publicKey);
@@ -80,40 +202,84 @@ export const importPublicKeyJwk = async (jwk: JsonWebKey): Promise<CryptoKey> =>
   }
 };
 
+/**
+ * Derives the pairwise secret with a peer. The raw ECDH output is never used
+ * as a cipher key: it is returned as HKDF input keying material, from which
+ * `deriveContextKey` expands one AES-GCM key per direction and context.
+ */
 export const deriveSharedSecret = async (ownPrivateKey: CryptoKey, peerPublicKey: CryptoKey): Promise<CryptoKey> => {
   try {
-    return await crypto.subtle.deriveKey(
+    const sharedBits = await crypto.subtle.deriveBits(
       {
         name: 'ECDH',
         public: peerPublicKey, // Peer's public CryptoKey object
       },
       ownPrivateKey, // Your private CryptoKey object
-      {
-        name: 'AES-GCM', // Algorithm for the derived key
-        length: 256,    // Key length for AES-256
-      },
-      false, // Derived key should NOT be extractable for security
-      ['encrypt', 'decrypt'] // Usages for the derived AES key
+      256
     );
+    return await crypto.subtle.importKey('raw', sharedBits, 'HKDF', false, ['deriveKey']);
   } catch (error) {
     console.error("Error deriving shared secret:", error);
     throw new Error(`Shared secret derivation failed: ${error instanceof Error ? error.message : String(error)}`);
   }
 };
 
+export interface KeyContext {
+  context: string;   // 'direct', 'file-offer', `room:${roomId}` or `file:${transferId}`
+  sender: string;    // Username of the encrypting side
+  recipient: string; // Username of the decrypting side
+}
+
+/**
+ * Expands the pairwise secret into the AES-GCM key for one direction and
+ * context, so a ciphertext made for one conversation (or one direction) does
+ * not decrypt in any other.
+ */
+export const deriveContextKey = async (sharedSecret: CryptoKey, { context, sender, recipient }: KeyContext): Promise<CryptoKey> => {
+  try {
+    return await crypto.subtle.deriveKey(
+      {
+        name: 'HKDF',
+        hash: 'SHA-256',
+        salt: new Uint8Array(32),
+        info: new TextEncoder().encode(JSON.stringify(['benull-context-key', context, sender, recipient])),
+      },
+      sharedSecret,
+      { name: 'AES-GCM', length: 256 },
+      false,
+      ['encrypt', 'decrypt']
+    );
+  } catch (error) {
+    console.error("Error deriving context key:", error);
+    throw new Error(`Context key derivation failed: ${error instanceof Error ? error.message : String(error)}`);
+  }
+};
+
+// --- Symmetric Chain Ratchet (shared by Double Ratchet and Sender Keys) ---
+
+const hmacByte = async (keyBytes: Uint8Array, input: number): Promise<Uint8Array> => {
+  const key = await crypto.subtle.importKey('raw', keyBytes, { name: 'HMAC', hash: 'SHA-256' }, false, ['sign']);
+  return new Uint8Array(await crypto.subtle.sign('HMAC', key, new Uint8Array([input])));
+};
+
+// Advances a chain key one step. Returns [nextChainKey, messageKey].
+export const kdfChainKey = async (chainKey: Uint8Array): Promise<[Uint8Array, Uint8Array]> => {
+  return [await hmacByte(chainKey, 0x02), await hmacByte(chainKey, 0x01)];
+};
+
 export const encryptText = async (
   text: string,
-  aesKey: CryptoKey
+  aesKey: CryptoKey,
+  associatedData?: Uint8Array, // Authenticated but not encrypted; decryptText must be given the same bytes
+  padding: PaddingPolicy = DEFAULT_PADDING_POLICY,
+  suite?: string // Negotiated cipher suite; the legacy suite when omitted
 ): Promise<{ encryptedDataB64: string; ivB64: string } | null> => {
   try {
-    const iv = crypto.getRandomValues(new Uint8Array(12)); // 12 bytes IV for AES-GCM is standard
-    const encodedText = new TextEncoder().encode(text);
+    const iv = generateIv(suite);
+    const encodedText = encodePaddedText(text, padding);
 
     const encryptedBuffer = await crypto.subtle.encrypt(
-      {
-        name: 'AES-GCM',
-        iv: iv,
-      },
+      aeadParams(suite, iv, associatedData),
       aesKey,
       encodedText
     );
@@ -131,24 +297,78 @@ export const encryptText = async (
 export const decryptText = async (
   encryptedDataB64: string,
   ivB64: string,
-  aesKey: CryptoKey
+  aesKey: CryptoKey,
+  associatedData?: Uint8Array,
+  padded = true,
+  suite?: string
 ): Promise<string | null> => {
   try {
     const iv = base64ToUint8Array(ivB64);
     const encryptedData = base64ToArrayBuffer(encryptedDataB64);
 
     const decryptedBuffer = await crypto.subtle.decrypt(
-      {
-        name: 'AES-GCM',
-        iv: iv,
-      },
+      aeadParams(suite, iv, associatedData),
       aesKey,
       encryptedData
     );
 
-    return new TextDecoder().decode(decryptedBuffer);
+    return decodePaddedText(new Uint8Array(decryptedBuffer), padded);
   } catch (error) {
 
     return null;
   }
-};
\ No newline at end of file
+};
+
+// --- File Transfer Encryption ---
+
+const encodeChunkAad = (transferId: string, chunkIndex: number): Uint8Array => {
+  return new TextEncoder().encode(`${transferId}:${chunkIndex}`);
+};
+
+/** Derives the AES-GCM key for a single file transfer, from the sender to the recipient. */
+export const deriveFileTransferKey = (sharedSecret: CryptoKey, transferId: string, sender: string, recipient: string): Promise<CryptoKey> => {
+  return deriveContextKey(sharedSecret, { context: `file:${transferId}`, sender, recipient });
+};
+
+/**
+ * Seals one file chunk. The output is `iv || ciphertext`, with the transfer id
+ * and chunk index bound as associated data so chunks cannot be reordered or
+ * spliced between transfers.
+ */
+export const encryptFileChunk = async (
+  chunk: ArrayBuffer,
+  fileKey: CryptoKey,
+  transferId: string,
+  chunkIndex: number,
+  suite?: string // Suite of the file offer
+): Promise<ArrayBuffer> => {
+  const iv = generateIv(suite);
+  const ciphertext = await crypto.subtle.encrypt(aeadParams(suite, iv, encodeChunkAad(transferId, chunkIndex)), fileKey, chunk);
+
+  const sealed = new Uint8Array(iv.length + ciphertext.byteLength);
+  sealed.set(iv, 0);
+  sealed.set(new Uint8Array(ciphertext), iv.length);
+  return sealed.buffer;
+};
+
+export const decryptFileChunk = async (
+  sealed: ArrayBuffer,
+  fileKey: CryptoKey,
+  transferId: string,
+  chunkIndex: number,
+  suite?: string
+): Promise<ArrayBuffer | null> => {
+  try {
+    const ivLength = getCipherSuite(suite).aead.ivLength;
+    const bytes = new Uint8Array(sealed);
+    if (bytes.byteLength <= ivLength) return null;
+
+    return await crypto.subtle.decrypt(
+      aeadParams(suite, bytes.slice(0, ivLength), encodeChunkAad(transferId, chunkIndex)),
+      fileKey,
+      bytes.slice(ivLength)
+    );
+  } catch (error) {
+    return null;
+  }
+};
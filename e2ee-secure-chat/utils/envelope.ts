@@ -0,0 +1,67 @@
+import { signData, verifySignature } from './encryptionService';
+
+// --- Signed Envelopes ---
+//
+// Every envelope a client emits (text, sender key distribution, file offer,
+// direct chat handshake) carries the sender's identity signature over all of
+// its fields, including the sender and intended recipient. The relay can still
+// drop messages, but it can no longer forge, re-address or re-attribute them.
+
+export interface SignableEnvelope {
+  version?: number;
+  suite?: string;
+  senderUsername?: string;
+  recipient?: string;
+  signatureB64?: string;
+}
+
+/** JSON with recursively sorted keys and undefined fields removed, so both sides hash identical bytes. */
+export const canonicalJson = (value: unknown): string => {
+  if (Array.isArray(value)) {
+    return `[${value.map(canonicalJson).join(',')}]`;
+  }
+  if (value && typeof value === 'object') {
+    const record = value as Record<string, unknown>;
+    const fields = Object.keys(record)
+      .filter(key => record[key] !== undefined)
+      .sort()
+      .map(key => `${JSON.stringify(key)}:${canonicalJson(record[key])}`);
+    return `{${fields.join(',')}}`;
+  }
+  return JSON.stringify(value);
+};
+
+/**
+ * Associated data for an envelope's ciphertext: who sent it to whom, when,
+ * under which id, in which kind of conversation, and with which protocol
+ * version and cipher suite. The receiver rebuilds it from the (signature-checked)
+ * envelope, so any mismatch fails decryption. Envelopes from before versioning
+ * have neither field, and canonicalJson leaves them out.
+ */
+export const encodeMessageAad = (envelope: {
+  id: string;
+  timestamp: number;
+  type: string;
+  version?: number;
+  suite?: string;
+  senderUsername?: string;
+  recipient?: string;
+  isDirect?: boolean;
+}): Uint8Array => {
+  const { id, timestamp, type, version, suite, senderUsername, recipient, isDirect } = envelope;
+  return new TextEncoder().encode(canonicalJson({ id, timestamp, type, version, suite, sender: senderUsername, recipient, isDirect: !!isDirect }));
+};
+
+const signingInput = (envelope: SignableEnvelope): Uint8Array => {
+  const { signatureB64: _signature, ...unsigned } = envelope;
+  return new TextEncoder().encode(canonicalJson(unsigned));
+};
+
+export const signEnvelope = async <T extends SignableEnvelope>(envelope: T, signingKey: CryptoKey): Promise<T> => {
+  return { ...envelope, signatureB64: await signData(signingInput(envelope), signingKey) };
+};
+
+export const verifyEnvelope = async (envelope: SignableEnvelope, publicKey: CryptoKey): Promise<boolean> => {
+  if (!envelope.signatureB64) return false;
+  return verifySignature(signingInput(envelope), envelope.signatureB64, publicKey);
+};
@@ -0,0 +1,197 @@
+import { KeyPair } from '../types';
+import {
+  arrayBufferToBase64,
+  base64ToArrayBuffer,
+  base64ToUint8Array,
+  uint8ArrayToBase64,
+} from './encryptionService';
+import { canonicalJson } from './envelope';
+import { KeyPin, importPins } from './keyPins';
+import { protectKeyPairs } from './keyProtection';
+import { clearKeys, storeKey, storeProtectedKeys } from './keyStorage';
+import { isEphemeralKeysEnabled } from './securitySettings';
+import { UserIdentity, storeIdentity } from './userManager';
+
+// --- Identity Backups ---
+//
+// A backup file is a JSON envelope with a cleartext header (format, version,
+// KDF parameters) and an AES-GCM ciphertext of the identity under a key
+// stretched from the backup passphrase. The header is bound as associated
+// data, so editing any part of the file makes decryption fail instead of
+// restoring tampered or truncated contents.
+
+const BACKUP_FORMAT = 'benull-identity-backup';
+const BACKUP_VERSION = 1;
+const PBKDF2_ITERATIONS = 600_000;
+const MAX_PBKDF2_ITERATIONS = PBKDF2_ITERATIONS * 4; // A crafted file must not stall the browser on restore
+
+interface BackupHeader {
+  format: string;
+  version: number;
+  kdf: { name: 'PBKDF2'; hash: 'SHA-256'; iterations: number; saltB64: string };
+}
+
+export interface IdentityBackupFile extends BackupHeader {
+  ivB64: string;
+  ciphertextB64: string;
+}
+
+export interface IdentityBackupContents {
+  identity: UserIdentity;
+  keys: {
+    identity: { publicKey: JsonWebKey; privateKey: JsonWebKey };
+    signing: { publicKey: JsonWebKey; privateKey: JsonWebKey };
+  };
+  pins: Record<string, KeyPin>;
+  exportedAt: number;
+}
+
+const deriveBackupKey = async (passphrase: string, kdf: BackupHeader['kdf']): Promise<CryptoKey> => {
+  const passphraseKey = await crypto.subtle.importKey('raw', new TextEncoder().encode(passphrase), 'PBKDF2', false, ['deriveKey']);
+  return await crypto.subtle.deriveKey(
+    { name: 'PBKDF2', hash: kdf.hash, salt: base64ToUint8Array(kdf.saltB64), iterations: kdf.iterations },
+    passphraseKey,
+    { name: 'AES-GCM', length: 256 },
+    false,
+    ['encrypt', 'decrypt']
+  );
+};
+
+const encodeHeader = (header: BackupHeader): Uint8Array => {
+  return new TextEncoder().encode(canonicalJson({ format: header.format, version: header.version, kdf: header.kdf }));
+};
+
+/** Exports both key pairs as JWK. The private keys must be extractable. */
+export const exportKeyPairs = async (identity: KeyPair, signing: KeyPair): Promise<IdentityBackupContents['keys']> => {
+  return {
+    identity: {
+      publicKey: await crypto.subtle.exportKey('jwk', identity.publicKey),
+      privateKey: await crypto.subtle.exportKey('jwk', identity.privateKey)
+    },
+    signing: {
+      publicKey: await crypto.subtle.exportKey('jwk', signing.publicKey),
+      privateKey: await crypto.subtle.exportKey('jwk', signing.privateKey)
+    }
+  };
+};
+
+export const createIdentityBackup = async (contents: IdentityBackupContents, passphrase: string): Promise<string> => {
+  try {
+    const header: BackupHeader = {
+      format: BACKUP_FORMAT,
+      version: BACKUP_VERSION,
+      kdf: {
+        name: 'PBKDF2',
+        hash: 'SHA-256',
+        iterations: PBKDF2_ITERATIONS,
+        saltB64: uint8ArrayToBase64(crypto.getRandomValues(new Uint8Array(16)))
+      }
+    };
+    const iv = crypto.getRandomValues(new Uint8Array(12));
+    const ciphertext = await crypto.subtle.encrypt(
+      { name: 'AES-GCM', iv, additionalData: encodeHeader(header) },
+      await deriveBackupKey(passphrase, header.kdf),
+      new TextEncoder().encode(JSON.stringify(contents))
+    );
+
+    const file: IdentityBackupFile = { ...header, ivB64: uint8ArrayToBase64(iv), ciphertextB64: arrayBufferToBase64(ciphertext) };
+    return JSON.stringify(file, null, 2);
+  } catch (error) {
+    console.error("Error creating identity backup:", error);
+    throw new Error(`Backup failed: ${error instanceof Error ? error.message : String(error)}`);
+  }
+};
+
+/** Decrypts and checks a backup file. Throws with a user-facing message on any problem. */
+export const openIdentityBackup = async (fileText: string, passphrase: string): Promise<IdentityBackupContents> => {
+  let file: IdentityBackupFile;
+  try {
+    file = JSON.parse(fileText);
+  } catch {
+    throw new Error('This is not an identity backup file.');
+  }
+  if (file?.format !== BACKUP_FORMAT) {
+    throw new Error('This is not an identity backup file.');
+  }
+  if (file.version !== BACKUP_VERSION) {
+    throw new Error(`Unsupported backup version ${file.version}. Update the app to restore it.`);
+  }
+  if (file.kdf?.name !== 'PBKDF2' || file.kdf.hash !== 'SHA-256' || !Number.isInteger(file.kdf.iterations) || file.kdf.iterations < 100_000 || file.kdf.iterations > MAX_PBKDF2_ITERATIONS) {
+    throw new Error('The backup uses unsupported key derivation parameters.');
+  }
+
+  let plaintext: ArrayBuffer;
+  try {
+    plaintext = await crypto.subtle.decrypt(
+      { name: 'AES-GCM', iv: base64ToUint8Array(file.ivB64), additionalData: encodeHeader(file) },
+      await deriveBackupKey(passphrase, file.kdf),
+      base64ToArrayBuffer(file.ciphertextB64)
+    );
+  } catch {
+    throw new Error('Wrong passphrase, or the backup file is damaged.');
+  }
+
+  const contents: IdentityBackupContents = JSON.parse(new TextDecoder().decode(plaintext));
+  if (!contents?.identity?.username || !contents.keys?.identity?.privateKey || !contents.keys?.signing?.privateKey) {
+    throw new Error('The backup is incomplete.');
+  }
+  return contents;
+};
+
+const signingAlgorithm = (jwk: JsonWebKey) => jwk.kty === 'OKP' && jwk.crv === 'Ed25519'
+  ? { name: 'Ed25519' }
+  : { name: 'ECDSA', namedCurve: 'P-256' };
+
+// Private keys are only extractable when they are about to be sealed under a passcode
+const importBackupKeyPairs = async (
+  keys: IdentityBackupContents['keys'],
+  extractable = false
+): Promise<{ identity: KeyPair; signing: KeyPair }> => {
+  const ecdh = { name: 'ECDH', namedCurve: 'P-256' };
+  const signing = signingAlgorithm(keys.signing.publicKey);
+  return {
+    identity: {
+      publicKey: await crypto.subtle.importKey('jwk', keys.identity.publicKey, ecdh, true, []),
+      privateKey: await crypto.subtle.importKey('jwk', keys.identity.privateKey, ecdh, extractable, ['deriveKey', 'deriveBits'])
+    },
+    signing: {
+      publicKey: await crypto.subtle.importKey('jwk', keys.signing.publicKey, signing, true, ['verify']),
+      privateKey: await crypto.subtle.importKey('jwk', keys.signing.privateKey, signing, extractable, ['sign'])
+    }
+  };
+};
+
+// Keys restored in ephemeral keys mode, held for this page only
+let restoredEphemeralKeys: { identity: KeyPair; signing: KeyPair } | null = null;
+
+/** The key pairs restored during this page load in ephemeral keys mode, if any. */
+export const getRestoredEphemeralKeys = () => restoredEphemeralKeys;
+
+/**
+ * Replaces the local identity with the one from a backup. With a passcode the
+ * restored private keys are stored sealed, as with `enablePasscode`. In
+ * ephemeral keys mode nothing is written to IndexedDB and the passcode is unused.
+ */
+export const restoreIdentityBackup = async (contents: IdentityBackupContents, passcode?: string): Promise<void> => {
+  if (isEphemeralKeysEnabled()) {
+    restoredEphemeralKeys = await importBackupKeyPairs(contents.keys);
+    importPins(contents.pins || {});
+    storeIdentity(contents.identity);
+    return;
+  }
+
+  const keys = await importBackupKeyPairs(contents.keys, !!passcode);
+
+  await clearKeys();
+  await storeKey('publicKey', keys.identity.publicKey);
+  await storeKey('signingPublicKey', keys.signing.publicKey);
+  if (passcode) {
+    await storeProtectedKeys(await protectKeyPairs(passcode, keys));
+  } else {
+    await storeKey('privateKey', keys.identity.privateKey);
+    await storeKey('signingPrivateKey', keys.signing.privateKey);
+  }
+
+  importPins(contents.pins || {});
+  storeIdentity(contents.identity);
+};
@@ -0,0 +1,63 @@
+// --- Invite Links ---
+//
+// Format: /#/r/<roomId>?k=<secret>&exp=<unix ms>
+// Everything after '#' stays in the browser, so neither the web host nor the
+// nexus ever sees the room secret. The secret is used as the room passphrase
+// (see roomAuth.ts). Expiry is enforced by the opening client only: it keeps
+// honest users from joining through stale links, it does not revoke the secret.
+
+const INVITE_ROUTE = /^#\/r\/([^?]+)(?:\?(.*))?$/;
+
+export interface RoomInvite {
+  roomId: string;
+  secret?: string;    // Room passphrase; absent for open rooms
+  expiresAt?: number;
+}
+
+/** Random 256-bit secret, base64url so it survives URLs unescaped. */
+export const generateInviteSecret = (): string => {
+  const bytes = crypto.getRandomValues(new Uint8Array(32));
+  return btoa(String.fromCharCode(...bytes)).replace(/\+/g, '-').replace(/\//g, '_').replace(/=+$/, '');
+};
+
+export const buildInviteUrl = (invite: RoomInvite, baseUrl = `${window.location.origin}/`): string => {
+  const params = new URLSearchParams();
+  if (invite.secret) params.set('k', invite.secret);
+  if (invite.expiresAt) params.set('exp', String(invite.expiresAt));
+  const query = params.toString();
+  return `${baseUrl}#/r/${encodeURIComponent(invite.roomId)}${query ? `?${query}` : ''}`;
+};
+
+/** Parses a location hash; returns null when it is not an invite route. */
+export const parseInviteHash = (hash: string): RoomInvite | null => {
+  const match = INVITE_ROUTE.exec(hash);
+  if (!match) return null;
+
+  try {
+    const roomId = decodeURIComponent(match[1]);
+    if (!roomId) return null;
+
+    const params = new URLSearchParams(match[2] || '');
+    const expiresAt = Number(params.get('exp'));
+    return {
+      roomId,
+      secret: params.get('k') || undefined,
+      expiresAt: Number.isFinite(expiresAt) && expiresAt > 0 ? expiresAt : undefined
+    };
+  } catch {
+    return null; // Malformed percent-encoding
+  }
+};
+
+export const isInviteExpired = (invite: RoomInvite, now = Date.now()): boolean => {
+  return invite.expiresAt !== undefined && invite.expiresAt <= now;
+};
+
+/** Reads an invite from the address bar and removes it, so the secret does not linger in history. */
+export const consumeInviteFromLocation = (): RoomInvite | null => {
+  const invite = parseInviteHash(window.location.hash);
+  if (invite) {
+    window.history.replaceState(null, '', window.location.pathname + window.location.search);
+  }
+  return invite;
+};
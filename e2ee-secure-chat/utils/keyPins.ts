@@ -0,0 +1,126 @@
+import { LOCAL_STORAGE_KEY_PREFIX } from '../constants';
+import { canonicalJson } from './envelope';
+
+// Trust-on-first-use pins: the first identity seen for a username is remembered,
+// and any later difference is surfaced instead of silently re-deriving secrets.
+const STORAGE_KEY = `${LOCAL_STORAGE_KEY_PREFIX}keyPins`;
+
+export interface KeyPin {
+    fingerprint: string;
+    verified: boolean; // Marked as verified by the user after comparing safety numbers
+    firstSeen: number;
+    changedAt?: number;
+    rotatedAt?: number; // Last authenticated key rotation announced by the peer
+    pendingFingerprint?: string; // Changed key of a verified contact; the pin keeps the verified key until the user confirms
+}
+
+export type PinCheck =
+    | { status: 'new'; pin: KeyPin }
+    | { status: 'match'; pin: KeyPin }
+    | { status: 'pending'; pin: KeyPin } // Still the unconfirmed key already reported as a change
+    | { status: 'changed'; pin: KeyPin; previous: KeyPin };
+
+const loadPins = (): Record<string, KeyPin> => {
+    try {
+        return JSON.parse(localStorage.getItem(STORAGE_KEY) || '{}');
+    } catch {
+        return {};
+    }
+};
+
+const savePins = (pins: Record<string, KeyPin>): void => {
+    localStorage.setItem(STORAGE_KEY, JSON.stringify(pins));
+};
+
+// Only the key material counts; export metadata such as key_ops may differ between browsers
+const keyMaterial = (jwk?: JsonWebKey) => jwk && { kty: jwk.kty, crv: jwk.crv, x: jwk.x, y: jwk.y };
+
+/** Stable encoding of a user's public identity (ECDH key plus signing key). */
+export const encodeIdentity = (publicKey: JsonWebKey, signingKey?: JsonWebKey): Uint8Array => {
+    return new TextEncoder().encode(canonicalJson({ publicKey: keyMaterial(publicKey), signingKey: keyMaterial(signingKey) }));
+};
+
+export const computeKeyFingerprint = async (publicKey: JsonWebKey, signingKey?: JsonWebKey): Promise<string> => {
+    const digest = await crypto.subtle.digest('SHA-256', encodeIdentity(publicKey, signingKey));
+    return Array.from(new Uint8Array(digest)).map(b => b.toString(16).padStart(2, '0')).join('');
+};
+
+export const getPin = (username: string): KeyPin | null => {
+    return loadPins()[username] || null;
+};
+
+/**
+ * Compares a fingerprint with the pin for a username, pinning it if new. A changed
+ * key replaces an unverified pin right away; for a verified pin it is only recorded
+ * as pending, so the block on that contact survives reloads until confirmPendingKey.
+ */
+export const checkAndPinKey = (username: string, fingerprint: string): PinCheck => {
+    const pins = loadPins();
+    const previous = pins[username];
+
+    if (previous && previous.fingerprint === fingerprint) {
+        if (!previous.pendingFingerprint) return { status: 'match', pin: previous };
+        // Back to the verified key: the change no longer needs confirming
+        const { pendingFingerprint: _, ...pin } = previous;
+        pins[username] = pin;
+        savePins(pins);
+        return { status: 'match', pin };
+    }
+    if (previous?.pendingFingerprint === fingerprint) {
+        return { status: 'pending', pin: previous };
+    }
+
+    const now = Date.now();
+    const pin: KeyPin = !previous
+        ? { fingerprint, verified: false, firstSeen: now }
+        : previous.verified
+            ? { ...previous, pendingFingerprint: fingerprint, changedAt: now }
+            : { fingerprint, verified: false, firstSeen: previous.firstSeen, changedAt: now };
+    pins[username] = pin;
+    savePins(pins);
+
+    return previous ? { status: 'changed', pin, previous } : { status: 'new', pin };
+};
+
+/** Replaces a verified pin with the pending key the user accepted; the new key is not verified. */
+export const confirmPendingKey = (username: string): void => {
+    const pins = loadPins();
+    const previous = pins[username];
+    if (!previous?.pendingFingerprint) return;
+    pins[username] = { fingerprint: previous.pendingFingerprint, verified: false, firstSeen: previous.firstSeen, changedAt: Date.now() };
+    savePins(pins);
+};
+
+/** Contacts whose changed key still awaits confirmation; nothing is sent to them until then. */
+export const getPendingKeyChanges = (): string[] => {
+    return Object.entries(loadPins()).filter(([, pin]) => pin.pendingFingerprint).map(([username]) => username);
+};
+
+/** Moves a pin to a peer's rotated identity, keeping its verification: the old keys vouched for the new ones. */
+export const rotatePin = (username: string, fingerprint: string): void => {
+    const pins = loadPins();
+    const previous = pins[username];
+    if (!previous) return;
+    pins[username] = { ...previous, fingerprint, rotatedAt: Date.now() };
+    savePins(pins);
+};
+
+export const getVerifiedUsernames = (): string[] => {
+    return Object.entries(loadPins()).filter(([, pin]) => pin.verified && !pin.pendingFingerprint).map(([username]) => username);
+};
+
+export const setPinVerified = (username: string, verified: boolean): void => {
+    const pins = loadPins();
+    if (!pins[username]) return;
+    pins[username] = { ...pins[username], verified };
+    savePins(pins);
+};
+
+export const getAllPins = (): Record<string, KeyPin> => {
+    return loadPins();
+};
+
+/** Restores pins from a backup; entries from the backup win over local ones. */
+export const importPins = (pins: Record<string, KeyPin>): void => {
+    savePins({ ...loadPins(), ...pins });
+};
@@ -0,0 +1,110 @@
+import { KeyPair } from '../types';
+import { base64ToUint8Array, base64ToArrayBuffer, arrayBufferToBase64, uint8ArrayToBase64 } from './encryptionService';
+import { ProtectedKeys, WrappedKey } from './keyStorage';
+
+// --- Private Keys at Rest ---
+//
+// Without a passcode the private keys are stored as non-extractable CryptoKeys:
+// the browser can use them but never hands out their bytes. With a passcode they
+// are stored only as pkcs8 blobs wrapped with AES-GCM under a PBKDF2-derived
+// key, and unwrapped as non-extractable keys after unlocking. A wrong passcode
+// fails the AES-GCM tag check, so no separate passcode hash is stored.
+
+const PBKDF2_ITERATIONS = 600_000;
+const IDENTITY_KEY_USAGES: KeyUsage[] = ['deriveKey', 'deriveBits'];
+const SIGNING_KEY_USAGES: KeyUsage[] = ['sign'];
+
+export interface IdentityKeyPairs {
+  identity: KeyPair;
+  signing: KeyPair;
+}
+
+export interface UnlockedKeyPairs extends IdentityKeyPairs {
+  wrappingKey: CryptoKey; // Kept in memory while unlocked, so rotated keys can be sealed without asking again
+}
+
+export const derivePasscodeKey = async (passcode: string, saltB64: string, iterations: number): Promise<CryptoKey> => {
+  const passcodeKey = await crypto.subtle.importKey('raw', new TextEncoder().encode(passcode), 'PBKDF2', false, ['deriveKey']);
+  return await crypto.subtle.deriveKey(
+    { name: 'PBKDF2', hash: 'SHA-256', salt: base64ToUint8Array(saltB64), iterations },
+    passcodeKey,
+    { name: 'AES-GCM', length: 256 },
+    false,
+    ['wrapKey', 'unwrapKey']
+  );
+};
+
+const wrapPrivateKey = async (privateKey: CryptoKey, wrappingKey: CryptoKey): Promise<WrappedKey> => {
+  const iv = crypto.getRandomValues(new Uint8Array(12));
+  const wrapped = await crypto.subtle.wrapKey('pkcs8', privateKey, wrappingKey, { name: 'AES-GCM', iv });
+  return { wrappedB64: arrayBufferToBase64(wrapped), ivB64: uint8ArrayToBase64(iv) };
+};
+
+// The public key carries the algorithm parameters (ECDH P-256, Ed25519 or ECDSA P-256)
+const unwrapPrivateKey = async (wrapped: WrappedKey, wrappingKey: CryptoKey, publicKey: CryptoKey, usages: KeyUsage[], extractable: boolean): Promise<CryptoKey> => {
+  return await crypto.subtle.unwrapKey(
+    'pkcs8',
+    base64ToArrayBuffer(wrapped.wrappedB64),
+    wrappingKey,
+    { name: 'AES-GCM', iv: base64ToUint8Array(wrapped.ivB64) },
+    publicKey.algorithm,
+    extractable,
+    usages
+  );
+};
+
+/** Seals key pairs under an already derived wrapping key, e.g. the one of an unlocked record. */
+export const sealKeyPairs = async (
+  params: Pick<ProtectedKeys, 'saltB64' | 'iterations'>,
+  wrappingKey: CryptoKey,
+  keys: IdentityKeyPairs
+): Promise<ProtectedKeys> => {
+  return {
+    saltB64: params.saltB64,
+    iterations: params.iterations,
+    privateKey: await wrapPrivateKey(keys.identity.privateKey, wrappingKey),
+    signingPrivateKey: await wrapPrivateKey(keys.signing.privateKey, wrappingKey)
+  };
+};
+
+/** Seals both private keys under a passcode. The keys must be extractable. */
+export const protectKeyPairs = async (passcode: string, keys: IdentityKeyPairs): Promise<ProtectedKeys> => {
+  try {
+    const params = { saltB64: uint8ArrayToBase64(crypto.getRandomValues(new Uint8Array(16))), iterations: PBKDF2_ITERATIONS };
+    return await sealKeyPairs(params, await derivePasscodeKey(passcode, params.saltB64, params.iterations), keys);
+  } catch (error) {
+    console.error("Error protecting private keys:", error);
+    throw new Error(`Key protection failed: ${error instanceof Error ? error.message : String(error)}`);
+  }
+};
+
+/**
+ * Unwraps both private keys. Returns null when the passcode is wrong. Keys are
+ * only unwrapped as extractable when they are about to be sealed again.
+ */
+export const unlockKeyPairs = async (
+  record: ProtectedKeys,
+  passcode: string,
+  publicKeys: { identity: CryptoKey, signing: CryptoKey },
+  extractable = false
+): Promise<UnlockedKeyPairs | null> => {
+  try {
+    const wrappingKey = await derivePasscodeKey(passcode, record.saltB64, record.iterations);
+    const identityPrivateKey = await unwrapPrivateKey(record.privateKey, wrappingKey, publicKeys.identity, IDENTITY_KEY_USAGES, extractable);
+    const signingPrivateKey = await unwrapPrivateKey(record.signingPrivateKey, wrappingKey, publicKeys.signing, SIGNING_KEY_USAGES, extractable);
+    return {
+      identity: { publicKey: publicKeys.identity, privateKey: identityPrivateKey },
+      signing: { publicKey: publicKeys.signing, privateKey: signingPrivateKey },
+      wrappingKey
+    };
+  } catch {
+    return null; // Wrong passcode or corrupted record
+  }
+};
+
+/** Re-imports an extractable private key (e.g. stored by older versions) as non-extractable. */
+export const toNonExtractable = async (privateKey: CryptoKey): Promise<CryptoKey> => {
+  if (!privateKey.extractable) return privateKey;
+  const pkcs8 = await crypto.subtle.exportKey('pkcs8', privateKey);
+  return await crypto.subtle.importKey('pkcs8', pkcs8, privateKey.algorithm, false, privateKey.usages);
+};
@@ -1,22 +1,51 @@
-import { openDB, DBSchema, IDBPDatabase } from 'idb';
+import { openDB, deleteDB, DBSchema, IDBPDatabase } from 'idb';
+
+export interface WrappedKey {
+    wrappedB64: string; // pkcs8, AES-GCM wrapped
+    ivB64: string;
+}
+
+// Private keys sealed under a passcode; when present, the plain private keys are not stored
+export interface ProtectedKeys {
+    saltB64: string;
+    iterations: number;
+    privateKey: WrappedKey;
+    signingPrivateKey: WrappedKey;
+}
 
 interface ChatDB extends DBSchema {
     keys: {
         key: string;
         value: CryptoKey;
     };
+    protectedKeys: {
+        key: string;
+        value: ProtectedKeys;
+    };
 }
 
 const DB_NAME = 'e2ee-chat-db';
 const STORE_NAME = 'keys';
+const PROTECTED_STORE_NAME = 'protectedKeys';
+const PROTECTED_RECORD = 'identity';
 
 let dbPromise: Promise<IDBPDatabase<ChatDB>> | null = null;
 
 const getDB = () => {
     if (!dbPromise) {
-        dbPromise = openDB<ChatDB>(DB_NAME, 1, {
-            upgrade(db) {
-                db.createObjectStore(STORE_NAME);
+        dbPromise = openDB<ChatDB>(DB_NAME, 2, {
+            upgrade(db, oldVersion) {
+                if (oldVersion < 1) {
+                    db.createObjectStore(STORE_NAME);
+                }
+                if (oldVersion < 2) {
+                    db.createObjectStore(PROTECTED_STORE_NAME);
+                }
+            },
+            blocking(_currentVersion, _blockedVersion, event) {
+                // Another tab is deleting or upgrading the database: let go of it
+                (event.target as IDBDatabase).close();
+                dbPromise = null;
             },
         });
     }
@@ -33,7 +62,37 @@ export const getKey = async (keyName: string): Promise<CryptoKey | undefined> =>
     return await db.get(STORE_NAME, keyName);
 };
 
+export const deleteKey = async (keyName: string): Promise<void> => {
+    const db = await getDB();
+    await db.delete(STORE_NAME, keyName);
+};
+
+export const storeProtectedKeys = async (record: ProtectedKeys): Promise<void> => {
+    const db = await getDB();
+    await db.put(PROTECTED_STORE_NAME, record, PROTECTED_RECORD);
+};
+
+export const getProtectedKeys = async (): Promise<ProtectedKeys | undefined> => {
+    const db = await getDB();
+    return await db.get(PROTECTED_STORE_NAME, PROTECTED_RECORD);
+};
+
+export const clearProtectedKeys = async (): Promise<void> => {
+    const db = await getDB();
+    await db.clear(PROTECTED_STORE_NAME);
+};
+
 export const clearKeys = async (): Promise<void> => {
     const db = await getDB();
     await db.clear(STORE_NAME);
+    await db.clear(PROTECTED_STORE_NAME);
+};
+
+/** Deletes the whole database. Resolves once no other tab holds it open. */
+export const deleteKeyDatabase = async (): Promise<void> => {
+    if (dbPromise) {
+        (await dbPromise).close();
+        dbPromise = null;
+    }
+    await deleteDB(DB_NAME);
 };
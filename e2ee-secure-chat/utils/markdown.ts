@@ -0,0 +1,89 @@
+// --- Message Markdown ---
+//
+// A deliberately small Markdown subset for chat text: **bold**, *italic* /
+// _italic_, ~~strike~~, `inline code`, ``` fenced code blocks ``` and bare
+// http(s) URLs. The parser returns a tree of plain strings that React renders
+// as text nodes, so markup in a peer's decrypted message can never become HTML.
+
+export type MarkdownInline =
+  | { type: 'text'; text: string }
+  | { type: 'bold' | 'italic' | 'strike'; children: MarkdownInline[] }
+  | { type: 'code'; text: string }
+  | { type: 'link'; href: string; text: string };
+
+export type MarkdownBlock =
+  | { type: 'paragraph'; children: MarkdownInline[] }
+  | { type: 'code-block'; language?: string; text: string };
+
+const FENCE = /```([^\n`]*)\n?([\s\S]*?)```/g;
+
+// Alternatives in priority order; inline code and URLs are matched before emphasis so their contents stay literal
+const INLINE = /`([^`\n]+)`|\*\*(?=\S)([\s\S]*?\S)\*\*|~~(?=\S)([\s\S]*?\S)~~|\*(?=[^\s*])([^*]*?[^\s*])\*|(?<!\w)_(?=[^\s_])([^_]*?[^\s_])_(?!\w)|(https?:\/\/[^\s<>"]+)/g;
+
+// Sentence punctuation after a URL is not part of it
+const URL_TRAILER = /[.,;:!?)'\]]+$/;
+
+/** Only absolute http(s) URLs become links; anything else stays text. */
+export const toSafeHref = (candidate: string): string | null => {
+  try {
+    const url = new URL(candidate);
+    return url.protocol === 'http:' || url.protocol === 'https:' ? url.href : null;
+  } catch {
+    return null;
+  }
+};
+
+export const parseInlineMarkdown = (source: string): MarkdownInline[] => {
+  const nodes: MarkdownInline[] = [];
+  const pushText = (text: string) => {
+    if (!text) return;
+    const last = nodes[nodes.length - 1];
+    if (last?.type === 'text') last.text += text;
+    else nodes.push({ type: 'text', text });
+  };
+
+  let cursor = 0;
+  for (const match of source.matchAll(INLINE)) {
+    const [whole, code, bold, strike, starItalic, underscoreItalic, url] = match;
+    pushText(source.slice(cursor, match.index));
+    cursor = match.index + whole.length;
+
+    if (code !== undefined) {
+      nodes.push({ type: 'code', text: code });
+    } else if (bold !== undefined) {
+      nodes.push({ type: 'bold', children: parseInlineMarkdown(bold) });
+    } else if (strike !== undefined) {
+      nodes.push({ type: 'strike', children: parseInlineMarkdown(strike) });
+    } else if (starItalic !== undefined || underscoreItalic !== undefined) {
+      nodes.push({ type: 'italic', children: parseInlineMarkdown(starItalic ?? underscoreItalic) });
+    } else {
+      const trailer = url.match(URL_TRAILER)?.[0] || '';
+      const text = url.slice(0, url.length - trailer.length);
+      const href = toSafeHref(text);
+      if (href) nodes.push({ type: 'link', href, text });
+      else pushText(text);
+      pushText(trailer);
+    }
+  }
+  pushText(source.slice(cursor));
+  return nodes;
+};
+
+/** Splits a message into paragraphs and fenced code blocks; an unclosed fence stays text. */
+export const parseMarkdown = (source: string): MarkdownBlock[] => {
+  const blocks: MarkdownBlock[] = [];
+  const pushParagraph = (text: string) => {
+    const trimmed = text.replace(/^\n+|\n+$/g, '');
+    if (trimmed) blocks.push({ type: 'paragraph', children: parseInlineMarkdown(trimmed) });
+  };
+
+  let cursor = 0;
+  for (const match of source.matchAll(FENCE)) {
+    pushParagraph(source.slice(cursor, match.index));
+    cursor = match.index + match[0].length;
+    const language = match[1].trim();
+    blocks.push({ type: 'code-block', language: language || undefined, text: match[2].replace(/\n$/, '') });
+  }
+  pushParagraph(source.slice(cursor));
+  return blocks;
+};
@@ -0,0 +1,290 @@
+import { deflateRawSync, deflateSync, inflateRawSync, inflateSync } from 'node:zlib';
+import { describe, expect, it } from 'vitest';
+import { stripMetadata } from './metadataStripper';
+
+// --- Fixture helpers ---
+const encoder = new TextEncoder();
+const latin1 = (bytes: Uint8Array): string => new TextDecoder('windows-1252').decode(bytes);
+
+const concat = (...parts: Uint8Array[]): Uint8Array => {
+  const out = new Uint8Array(parts.reduce((sum, part) => sum + part.length, 0));
+  parts.reduce((offset, part) => (out.set(part, offset), offset + part.length), 0);
+  return out;
+};
+
+const u16be = (n: number) => new Uint8Array([n >> 8, n & 0xff]);
+const u32be = (n: number) => new Uint8Array([n >>> 24, (n >> 16) & 0xff, (n >> 8) & 0xff, n & 0xff]);
+const u16le = (n: number) => new Uint8Array([n & 0xff, n >> 8]);
+const u32le = (n: number) => new Uint8Array([n & 0xff, (n >> 8) & 0xff, (n >> 16) & 0xff, n >>> 24]);
+
+const crc32 = (bytes: Uint8Array): number => {
+  let crc = 0xffffffff;
+  for (const byte of bytes) {
+    crc ^= byte;
+    for (let k = 0; k < 8; k++) crc = crc & 1 ? 0xedb88320 ^ (crc >>> 1) : crc >>> 1;
+  }
+  return (crc ^ 0xffffffff) >>> 0;
+};
+
+const strip = async (data: Uint8Array, name: string, type: string) => {
+  const result = await stripMetadata(new File([data], name, { type }));
+  return { bytes: new Uint8Array(await result.file.arrayBuffer()), removed: result.removed };
+};
+
+// --- JPEG ---
+const jpegSegment = (marker: number, payload: Uint8Array) => concat(new Uint8Array([0xff, marker]), u16be(payload.length + 2), payload);
+
+// Little-endian EXIF with Orientation, and Artist stored outside the IFD
+const exifPayload = (orientation: number) => {
+  const artist = encoder.encode('Jane Doe\0');
+  const entry = (tag: number, type: number, count: number, value: Uint8Array) => concat(u16le(tag), u16le(type), u32le(count), value);
+  const ifd = concat(u16le(2), entry(0x0112, 3, 1, concat(u16le(orientation), u16le(0))), entry(0x013b, 2, artist.length, u32le(8 + 2 + 24 + 4)), u32le(0));
+  return concat(encoder.encode('Exif\0\0II'), u16le(42), u32le(8), ifd, artist);
+};
+
+const SCAN = new Uint8Array([0xff, 0xda, 0x00, 0x08, 0x01, 0x01, 0x00, 0x00, 0x3f, 0x00, 0x12, 0x34, 0xff, 0xd9]);
+
+// Walks the segments up to the start of scan, as a decoder would
+const jpegSegments = (bytes: Uint8Array): Array<{ marker: number; payload: Uint8Array }> => {
+  expect([bytes[0], bytes[1]]).toEqual([0xff, 0xd8]);
+  const segments: Array<{ marker: number; payload: Uint8Array }> = [];
+  let offset = 2;
+  while (bytes[offset + 1] !== 0xda) {
+    expect(bytes[offset]).toBe(0xff);
+    const length = (bytes[offset + 2] << 8) | bytes[offset + 3];
+    segments.push({ marker: bytes[offset + 1], payload: bytes.subarray(offset + 4, offset + 2 + length) });
+    offset += 2 + length;
+  }
+  expect(bytes.subarray(offset)).toEqual(SCAN);
+  return segments;
+};
+
+describe('stripMetadata: JPEG', () => {
+  const jpeg = (orientation: number) => concat(
+    new Uint8Array([0xff, 0xd8]),
+    jpegSegment(0xe0, encoder.encode('JFIF\0\x01\x01\0\0\x01\0\x01\0\0')),
+    jpegSegment(0xe1, exifPayload(orientation)),
+    jpegSegment(0xe1, encoder.encode('http://ns.adobe.com/xap/1.0/\0<x:xmpmeta>Jane Doe</x:xmpmeta>')),
+    jpegSegment(0xfe, encoder.encode('Shot by Jane Doe')),
+    SCAN
+  );
+
+  it('drops EXIF, XMP and comments but keeps the orientation', async () => {
+    const { bytes, removed } = await strip(jpeg(6), 'photo.jpg', 'image/jpeg');
+    expect(latin1(bytes)).not.toContain('Jane Doe');
+    expect(removed).toEqual(['EXIF (camera, GPS, timestamps)', 'XMP', 'Comments']);
+
+    const segments = jpegSegments(bytes);
+    expect(segments.map(s => s.marker)).toEqual([0xe0, 0xe1]);
+    const exif = segments[1].payload;
+    const view = new DataView(exif.buffer, exif.byteOffset, exif.byteLength);
+    expect(latin1(exif.subarray(0, 8))).toBe('Exif\0\0MM');
+    expect(view.getUint16(14)).toBe(1); // A single IFD entry...
+    expect(view.getUint16(16)).toBe(0x0112); // ...for Orientation
+    expect(view.getUint16(24)).toBe(6);
+  });
+});
+
+// --- PNG ---
+const pngChunk = (type: string, data: Uint8Array) => {
+  const body = concat(encoder.encode(type), data);
+  return concat(u32be(data.length), body, u32be(crc32(body)));
+};
+
+describe('stripMetadata: PNG', () => {
+  const pixels = new Uint8Array([0, 0xff, 0x00, 0x00]); // One red pixel after the filter byte
+  const png = concat(
+    new Uint8Array([0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a]),
+    pngChunk('IHDR', concat(u32be(1), u32be(1), new Uint8Array([8, 2, 0, 0, 0]))),
+    pngChunk('tEXt', encoder.encode('Author\0Jane Doe')),
+    pngChunk('tIME', new Uint8Array([0x07, 0xe9, 1, 2, 3, 4, 5])),
+    pngChunk('IDAT', new Uint8Array(deflateSync(pixels))),
+    pngChunk('IEND', new Uint8Array())
+  );
+
+  it('drops text and time chunks and leaves valid chunks behind', async () => {
+    const { bytes, removed } = await strip(png, 'image.png', 'image/png');
+    expect(latin1(bytes)).not.toContain('Jane Doe');
+    expect(removed).toEqual(['Text chunks', 'Modification time']);
+
+    const view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength);
+    const types: string[] = [];
+    for (let offset = 8; offset < bytes.length;) {
+      const length = view.getUint32(offset);
+      const body = bytes.subarray(offset + 4, offset + 8 + length);
+      expect(view.getUint32(offset + 8 + length)).toBe(crc32(body));
+      types.push(latin1(body.subarray(0, 4)));
+      if (types[types.length - 1] === 'IDAT') expect(new Uint8Array(inflateSync(body.subarray(4)))).toEqual(pixels);
+      offset += 12 + length;
+    }
+    expect(types).toEqual(['IHDR', 'IDAT', 'IEND']);
+  });
+});
+
+// --- WebP ---
+const riffChunk = (type: string, data: Uint8Array) => concat(encoder.encode(type), u32le(data.length), data, new Uint8Array(data.length & 1));
+
+describe('stripMetadata: WebP', () => {
+  const body = concat(
+    encoder.encode('WEBP'),
+    riffChunk('VP8X', new Uint8Array([0x0c, 0, 0, 0, 0, 0, 0, 0, 0, 0])), // EXIF and XMP flags set
+    riffChunk('VP8L', new Uint8Array([0x2f, 0, 0, 0, 0x10, 0x07, 0x10, 0x11, 0x11, 0x88, 0x88, 0xfe, 0x07, 0x00])),
+    riffChunk('EXIF', encoder.encode('MM\0*Jane Doe')),
+    riffChunk('XMP ', encoder.encode('<x:xmpmeta>Jane Doe</x:xmpmeta>'))
+  );
+  const webp = concat(encoder.encode('RIFF'), u32le(body.length), body);
+
+  it('drops EXIF and XMP chunks and clears their flags', async () => {
+    const { bytes, removed } = await strip(webp, 'image.webp', 'image/webp');
+    expect(latin1(bytes)).not.toContain('Jane Doe');
+    expect(removed).toEqual(['EXIF (camera, GPS, timestamps)', 'XMP']);
+
+    const view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength);
+    expect(latin1(bytes.subarray(0, 4))).toBe('RIFF');
+    expect(view.getUint32(4, true)).toBe(bytes.length - 8);
+    const types: string[] = [];
+    for (let offset = 12; offset < bytes.length;) {
+      const size = view.getUint32(offset + 4, true);
+      types.push(latin1(bytes.subarray(offset, offset + 4)));
+      offset += 8 + size + (size & 1);
+      expect(offset).toBeLessThanOrEqual(bytes.length);
+    }
+    expect(types).toEqual(['VP8X', 'VP8L']);
+    expect(bytes[20] & 0x0c).toBe(0);
+  });
+});
+
+// --- PDF ---
+// Builds a PDF with a correct xref table from object bodies numbered from 1
+const pdf = (objects: string[], trailer: string) => {
+  let text = '%PDF-1.7\n';
+  const offsets = objects.map((body, i) => {
+    const offset = text.length;
+    text += `${i + 1} 0 obj\n${body}\nendobj\n`;
+    return offset;
+  });
+  const xref = text.length;
+  text += `xref\n0 ${objects.length + 1}\n0000000000 65535 f \n${offsets.map(o => `${String(o).padStart(10, '0')} 00000 n \n`).join('')}`;
+  text += `trailer\n<< /Size ${objects.length + 1} ${trailer} >>\nstartxref\n${xref}\n%%EOF\n`;
+  return Uint8Array.from(text, char => char.charCodeAt(0)); // One byte per character, so offsets hold for binary streams
+};
+
+const XMP = '<x:xmpmeta xmlns:x="adobe:ns:meta/"><dc:creator>Jane Doe</dc:creator></x:xmpmeta>';
+
+describe('stripMetadata: PDF', () => {
+  it('blanks document info and XMP without moving any object', async () => {
+    const original = pdf([
+      '<< /Type /Catalog /Pages 2 0 R /Metadata 4 0 R >>',
+      '<< /Type /Pages /Kids [] /Count 0 >>',
+      '<< /Title (Report) /Author (Jane \\(JD\\) Doe) /Producer <4A616E65> >>',
+      `<< /Type /Metadata /Subtype /XML /Length ${XMP.length} >>\nstream\n${XMP}\nendstream`,
+    ], '/Root 1 0 R /Info 3 0 R');
+    const { bytes, removed } = await strip(original, 'report.pdf', 'application/pdf');
+    const text = latin1(bytes);
+    expect(text).not.toContain('Jane');
+    expect(text).not.toContain('4A616E65');
+    expect(text).toContain('/Title (Report)');
+    expect(removed).toEqual(['Document info (Author)', 'Document info (Producer)', 'XMP']);
+
+    // Same length, and every xref offset still lands on its object
+    expect(bytes.length).toBe(original.length);
+    const xref = Number(text.match(/startxref\n(\d+)/)![1]);
+    const offsets = [...text.slice(xref).matchAll(/^(\d{10}) 00000 n $/gm)].map(m => Number(m[1]));
+    offsets.forEach((offset, i) => expect(text.startsWith(`${i + 1} 0 obj`, offset)).toBe(true));
+  });
+
+  it('refuses document info it cannot reach inside an object stream', async () => {
+    const original = pdf([
+      '<< /Type /Catalog /Pages 2 0 R >>',
+      '<< /Type /Pages /Kids [] /Count 0 >>',
+      '<< /Type /ObjStm /N 1 /First 4 /Filter /FlateDecode /Length 10 >>\nstream\n0123456789\nendstream',
+    ], '/Root 1 0 R /Info 9 0 R');
+    await expect(strip(original, 'report.pdf', 'application/pdf')).rejects.toThrow('compressed object stream');
+  });
+
+  it('refuses compressed XMP', async () => {
+    const compressed = latin1(new Uint8Array(deflateSync(XMP)));
+    const original = pdf([
+      '<< /Type /Catalog /Pages 2 0 R /Metadata 3 0 R >>',
+      '<< /Type /Pages /Kids [] /Count 0 >>',
+      `<< /Type /Metadata /Subtype /XML /Filter /FlateDecode /Length ${compressed.length} >>\nstream\n${compressed}\nendstream`,
+    ], '/Root 1 0 R');
+    await expect(strip(original, 'report.pdf', 'application/pdf')).rejects.toThrow('XMP metadata is compressed');
+  });
+});
+
+// --- Office ---
+type ZipEntry = { name: string; content: string; deflate?: boolean };
+
+const zip = (entries: ZipEntry[]): Uint8Array => {
+  const locals: Uint8Array[] = [];
+  const directory: Uint8Array[] = [];
+  let offset = 0;
+  for (const { name, content, deflate } of entries) {
+    const raw = encoder.encode(content);
+    const data = deflate ? new Uint8Array(deflateRawSync(raw)) : raw;
+    const fileName = encoder.encode(name);
+    const fields = concat(u16le(deflate ? 8 : 0), u32le(0), u32le(crc32(raw)), u32le(data.length), u32le(raw.length), u16le(fileName.length), u16le(0));
+    const local = concat(u32le(0x04034b50), u16le(20), u16le(0), fields, fileName, data);
+    directory.push(concat(u32le(0x02014b50), u16le(20), u16le(20), u16le(0), fields, u16le(0), u16le(0), u16le(0), u32le(0), u32le(offset), fileName));
+    locals.push(local);
+    offset += local.length;
+  }
+  const central = concat(...directory);
+  return concat(...locals, central, u32le(0x06054b50), u16le(0), u16le(0), u16le(entries.length), u16le(entries.length), u32le(central.length), u32le(offset), u16le(0));
+};
+
+// Reads every entry through the central directory and checks its CRC
+const unzip = (bytes: Uint8Array): Record<string, string> => {
+  const view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength);
+  const eocd = bytes.length - 22;
+  expect(view.getUint32(eocd, true)).toBe(0x06054b50);
+  const files: Record<string, string> = {};
+  let cursor = view.getUint32(eocd + 16, true);
+  for (let n = 0; n < view.getUint16(eocd + 10, true); n++) {
+    expect(view.getUint32(cursor, true)).toBe(0x02014b50);
+    const nameLength = view.getUint16(cursor + 28, true);
+    const name = latin1(bytes.subarray(cursor + 46, cursor + 46 + nameLength));
+    const local = view.getUint32(cursor + 42, true);
+    expect(view.getUint32(local, true)).toBe(0x04034b50);
+    const start = local + 30 + view.getUint16(local + 26, true) + view.getUint16(local + 28, true);
+    const data = bytes.subarray(start, start + view.getUint32(cursor + 20, true));
+    const raw = view.getUint16(cursor + 10, true) === 8 ? new Uint8Array(inflateRawSync(data)) : data;
+    expect(crc32(raw)).toBe(view.getUint32(cursor + 16, true));
+    files[name] = new TextDecoder().decode(raw);
+    cursor += 46 + nameLength + view.getUint16(cursor + 30, true) + view.getUint16(cursor + 32, true);
+  }
+  expect(cursor).toBe(eocd);
+  return files;
+};
+
+describe('stripMetadata: Office', () => {
+  const DOCUMENT = '<w:document><w:body>Quarterly numbers</w:body></w:document>';
+  const docx = zip([
+    { name: '[Content_Types].xml', content: '<Types/>' },
+    { name: 'word/document.xml', content: DOCUMENT, deflate: true },
+    { name: 'docProps/core.xml', content: '<cp:coreProperties><dc:creator>Jane Doe</dc:creator></cp:coreProperties>', deflate: true },
+    { name: 'docProps/app.xml', content: '<Properties><Company>Acme</Company></Properties>' },
+  ]);
+
+  it('empties the property parts and keeps the document intact', async () => {
+    const { bytes, removed } = await strip(docx, 'notes.docx', 'application/vnd.openxmlformats-officedocument.wordprocessingml.document');
+    expect(removed).toEqual(['Author, editors and dates', 'Company, manager and application']);
+
+    const files = unzip(bytes);
+    expect(Object.keys(files)).toEqual(['[Content_Types].xml', 'word/document.xml', 'docProps/core.xml', 'docProps/app.xml']);
+    expect(files['word/document.xml']).toBe(DOCUMENT);
+    expect(files['docProps/core.xml']).toContain('<cp:coreProperties');
+    expect(files['docProps/core.xml']).not.toContain('Jane Doe');
+    expect(files['docProps/app.xml']).not.toContain('Acme');
+  });
+});
+
+describe('stripMetadata: other files', () => {
+  it('passes unknown formats through unchanged', async () => {
+    const file = new File(['Jane Doe'], 'notes.txt', { type: 'text/plain' });
+    const result = await stripMetadata(file);
+    expect(result.file).toBe(file);
+    expect(result.removed).toEqual([]);
+  });
+});
@@ -0,0 +1,370 @@
+// --- Outgoing File Metadata ---
+//
+// Removes metadata that identifies the sender from files before they are
+// sliced and encrypted. Images are rewritten at the container level rather
+// than re-encoded, so pixels and quality are untouched:
+// - JPEG: APP1 (EXIF, XMP), APP13 (IPTC) and comment segments are dropped;
+//   the EXIF orientation is carried over into a minimal EXIF segment
+// - PNG: text, eXIf and tIME chunks are dropped
+// - WebP: EXIF and XMP chunks are dropped
+// PDFs keep their byte layout (the xref table holds offsets), so document
+// info values and uncompressed XMP are blanked in place; a PDF whose info
+// dictionary or XMP is compressed is refused rather than sent half-cleaned.
+// Office documents (docx/xlsx/pptx) get empty core, app and custom property parts.
+// Anything else is sent unchanged.
+
+export interface StrippedFile {
+  file: File;
+  removed: string[]; // What was found and removed, for the notice shown to the sender
+}
+
+const OFFICE_TYPES = [
+  'application/vnd.openxmlformats-officedocument.wordprocessingml.document',
+  'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet',
+  'application/vnd.openxmlformats-officedocument.presentationml.presentation',
+];
+
+const ascii = (bytes: Uint8Array, start: number, length: number): string =>
+  String.fromCharCode(...bytes.subarray(start, start + length));
+
+const concat = (parts: Uint8Array[]): Uint8Array => {
+  const out = new Uint8Array(parts.reduce((sum, part) => sum + part.byteLength, 0));
+  let offset = 0;
+  for (const part of parts) {
+    out.set(part, offset);
+    offset += part.byteLength;
+  }
+  return out;
+};
+
+const malformed = (format: string): Error => new Error(`Malformed ${format} file`);
+
+// --- JPEG ---
+const EXIF_ORIENTATION_TAG = 0x0112;
+
+// Orientation (1-8) from the first IFD of an APP1 EXIF segment, or null when it has none
+const exifOrientation = (segment: Uint8Array): number | null => {
+  const tiff = 10; // Marker, length and "Exif\0\0"
+  if (segment.length < tiff + 8) return null;
+  const view = new DataView(segment.buffer, segment.byteOffset, segment.byteLength);
+  const byteOrder = ascii(segment, tiff, 2);
+  if (byteOrder !== 'II' && byteOrder !== 'MM') return null;
+  const littleEndian = byteOrder === 'II';
+  const ifd = tiff + view.getUint32(tiff + 4, littleEndian);
+  if (ifd + 2 > segment.length) return null;
+
+  for (let i = 0; i < view.getUint16(ifd, littleEndian); i++) {
+    const entry = ifd + 2 + i * 12;
+    if (entry + 12 > segment.length) return null;
+    if (view.getUint16(entry, littleEndian) !== EXIF_ORIENTATION_TAG) continue;
+    const orientation = view.getUint16(entry + 8, littleEndian);
+    return orientation >= 1 && orientation <= 8 ? orientation : null;
+  }
+  return null;
+};
+
+// APP1 segment holding nothing but the orientation, so rotated photos still display upright
+const orientationSegment = (orientation: number): Uint8Array => {
+  const segment = new Uint8Array(36);
+  const view = new DataView(segment.buffer);
+  view.setUint16(0, 0xffe1);
+  view.setUint16(2, segment.length - 2);
+  segment.set([0x45, 0x78, 0x69, 0x66, 0, 0, 0x4d, 0x4d, 0x00, 0x2a], 4); // "Exif\0\0", big-endian TIFF header
+  view.setUint32(14, 8); // First IFD right after the TIFF header
+  view.setUint16(18, 1); // One entry
+  view.setUint16(20, EXIF_ORIENTATION_TAG);
+  view.setUint16(22, 3); // SHORT
+  view.setUint32(24, 1); // Count
+  view.setUint16(28, orientation); // Value, left-aligned in its four bytes
+  view.setUint32(32, 0); // No next IFD
+  return segment;
+};
+
+const stripJpeg = (bytes: Uint8Array): { data: Uint8Array; removed: string[] } => {
+  if (bytes[0] !== 0xff || bytes[1] !== 0xd8) throw malformed('JPEG');
+  const parts: Uint8Array[] = [bytes.subarray(0, 2)];
+  const removed = new Set<string>();
+  let keptOrientation = false;
+  let offset = 2;
+
+  while (offset < bytes.length) {
+    if (bytes[offset] !== 0xff) throw malformed('JPEG');
+    const marker = bytes[offset + 1];
+    // Start of scan: entropy-coded data follows, and no metadata comes after it
+    if (marker === 0xda) {
+      parts.push(bytes.subarray(offset));
+      break;
+    }
+    if (marker === 0xff) { // Fill byte
+      offset++;
+      continue;
+    }
+    if (marker === 0x01 || (marker >= 0xd0 && marker <= 0xd7)) { // Markers without a length
+      parts.push(bytes.subarray(offset, offset + 2));
+      offset += 2;
+      continue;
+    }
+    if (offset + 4 > bytes.length) throw malformed('JPEG');
+    const end = offset + 2 + ((bytes[offset + 2] << 8) | bytes[offset + 3]);
+    if (end > bytes.length) throw malformed('JPEG');
+
+    if (marker === 0xe1) {
+      const header = ascii(bytes, offset + 4, 29);
+      removed.add(header.startsWith('Exif') ? 'EXIF (camera, GPS, timestamps)' : header.startsWith('http://ns.adobe.com/xap/') ? 'XMP' : 'APP1 metadata');
+      const orientation = header.startsWith('Exif') && !keptOrientation ? exifOrientation(bytes.subarray(offset, end)) : null;
+      if (orientation) {
+        parts.push(orientationSegment(orientation));
+        keptOrientation = true;
+      }
+    } else if (marker === 0xed) {
+      removed.add('IPTC');
+    } else if (marker === 0xfe) {
+      removed.add('Comments');
+    } else {
+      parts.push(bytes.subarray(offset, end));
+    }
+    offset = end;
+  }
+  return { data: concat(parts), removed: [...removed] };
+};
+
+// --- PNG ---
+const PNG_SIGNATURE = [0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a];
+const PNG_METADATA_CHUNKS: Record<string, string> = {
+  tEXt: 'Text chunks', zTXt: 'Text chunks', iTXt: 'Text chunks (incl. XMP)', eXIf: 'EXIF (camera, GPS, timestamps)', tIME: 'Modification time',
+};
+
+const stripPng = (bytes: Uint8Array): { data: Uint8Array; removed: string[] } => {
+  if (!PNG_SIGNATURE.every((byte, i) => bytes[i] === byte)) throw malformed('PNG');
+  const view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength);
+  const parts: Uint8Array[] = [bytes.subarray(0, 8)];
+  const removed = new Set<string>();
+  let offset = 8;
+
+  while (offset < bytes.length) {
+    if (offset + 12 > bytes.length) throw malformed('PNG');
+    const end = offset + 12 + view.getUint32(offset);
+    if (end > bytes.length) throw malformed('PNG');
+    const type = ascii(bytes, offset + 4, 4);
+    // Chunks carry their own CRC, so dropping one needs no other changes
+    if (PNG_METADATA_CHUNKS[type]) removed.add(PNG_METADATA_CHUNKS[type]);
+    else parts.push(bytes.subarray(offset, end));
+    offset = end;
+    if (type === 'IEND') break;
+  }
+  return { data: concat(parts), removed: [...removed] };
+};
+
+// --- WebP ---
+const VP8X_EXIF_FLAG = 0x08;
+const VP8X_XMP_FLAG = 0x04;
+
+const stripWebp = (bytes: Uint8Array): { data: Uint8Array; removed: string[] } => {
+  if (bytes.length < 12 || ascii(bytes, 0, 4) !== 'RIFF' || ascii(bytes, 8, 4) !== 'WEBP') throw malformed('WebP');
+  const view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength);
+  const parts: Uint8Array[] = [];
+  const removed = new Set<string>();
+  let offset = 12;
+
+  while (offset + 8 <= bytes.length) {
+    const size = view.getUint32(offset + 4, true);
+    const end = Math.min(bytes.length, offset + 8 + size + (size & 1)); // Chunks are padded to an even size
+    const type = ascii(bytes, offset, 4);
+    if (type === 'EXIF') removed.add('EXIF (camera, GPS, timestamps)');
+    else if (type === 'XMP ') removed.add('XMP');
+    else parts.push(bytes.slice(offset, end));
+    offset = end;
+  }
+
+  // The extended header advertises which metadata chunks exist
+  const vp8x = parts.find(part => ascii(part, 0, 4) === 'VP8X');
+  if (vp8x && vp8x.length > 8) vp8x[8] &= ~(VP8X_EXIF_FLAG | VP8X_XMP_FLAG);
+
+  const body = concat(parts);
+  const header = new Uint8Array(12);
+  header.set(bytes.subarray(0, 12));
+  new DataView(header.buffer).setUint32(4, body.length + 4, true);
+  return { data: concat([header, body]), removed: [...removed] };
+};
+
+// --- PDF ---
+const PDF_INFO_KEYS = ['Author', 'Creator', 'Producer', 'Subject', 'Keywords', 'CreationDate', 'ModDate'];
+
+// End of a literal string starting at `start` (the opening parenthesis), honouring escapes and nesting
+const literalStringEnd = (text: string, start: number): number => {
+  let depth = 0;
+  for (let i = start; i < text.length; i++) {
+    if (text[i] === '\\') i++;
+    else if (text[i] === '(') depth++;
+    else if (text[i] === ')' && --depth === 0) return i;
+  }
+  return -1;
+};
+
+const stripPdf = (bytes: Uint8Array): { data: Uint8Array; removed: string[] } => {
+  // windows-1252 maps every byte to exactly one UTF-16 unit, so string indices are byte offsets
+  const text = new TextDecoder('windows-1252').decode(bytes);
+  if (!text.startsWith('%PDF-')) throw malformed('PDF');
+  // Objects in a compressed object stream and compressed streams cannot be blanked in place
+  for (const match of text.matchAll(/\/Info\s+(\d+)\s+(\d+)\s+R/g)) {
+    if (!new RegExp(`(^|\\D)${match[1]}\\s+${match[2]}\\s+obj\\b`).test(text)) throw new Error('its document info is in a compressed object stream');
+  }
+  for (const match of text.matchAll(/\/Type\s*\/Metadata\b/g)) {
+    const dictionaryEnd = text.indexOf('stream', match.index);
+    if (dictionaryEnd >= 0 && /\/Filter\b/.test(text.slice(text.lastIndexOf('obj', match.index), dictionaryEnd))) {
+      throw new Error('its XMP metadata is compressed');
+    }
+  }
+
+  const data = bytes.slice();
+  const removed = new Set<string>();
+  const blank = (start: number, end: number, fill: number) => data.fill(fill, start, end);
+
+  for (const match of text.matchAll(new RegExp(`/(${PDF_INFO_KEYS.join('|')})\\s*([(<])`, 'g'))) {
+    const start = match.index + match[0].length - 1;
+    if (match[2] === '(') {
+      const end = literalStringEnd(text, start);
+      if (end < 0) continue;
+      blank(start + 1, end, 0x20); // Spaces; the surrounding delimiters stay
+    } else {
+      const end = text.indexOf('>', start);
+      if (end < 0 || text[start + 1] === '<') continue; // `<<` opens a dictionary, not a hex string
+      blank(start + 1, end, 0x30); // '0' hex digits
+    }
+    removed.add(`Document info (${match[1]})`);
+  }
+
+  for (const match of text.matchAll(/<x:xmpmeta[\s\S]*?<\/x:xmpmeta>/g)) {
+    blank(match.index, match.index + match[0].length, 0x20);
+    removed.add('XMP');
+  }
+  return { data, removed: [...removed] };
+};
+
+// --- Office (OOXML zip packages) ---
+const EMPTY_OFFICE_PARTS: Record<string, string> = {
+  'docProps/core.xml': '<?xml version="1.0" encoding="UTF-8" standalone="yes"?>\n<cp:coreProperties xmlns:cp="http://schemas.openxmlformats.org/package/2006/metadata/core-properties" xmlns:dc="http://purl.org/dc/elements/1.1/" xmlns:dcterms="http://purl.org/dc/terms/" xmlns:xsi="http://www.w3.org/2001/XMLSchema-instance"/>',
+  'docProps/app.xml': '<?xml version="1.0" encoding="UTF-8" standalone="yes"?>\n<Properties xmlns="http://schemas.openxmlformats.org/officeDocument/2006/extended-properties"/>',
+  'docProps/custom.xml': '<?xml version="1.0" encoding="UTF-8" standalone="yes"?>\n<Properties xmlns="http://schemas.openxmlformats.org/officeDocument/2006/custom-properties"/>',
+};
+const OFFICE_PART_LABELS: Record<string, string> = {
+  'docProps/core.xml': 'Author, editors and dates',
+  'docProps/app.xml': 'Company, manager and application',
+  'docProps/custom.xml': 'Custom properties',
+};
+
+const CRC_TABLE = Array.from({ length: 256 }, (_, n) => {
+  let c = n;
+  for (let k = 0; k < 8; k++) c = c & 1 ? 0xedb88320 ^ (c >>> 1) : c >>> 1;
+  return c >>> 0;
+});
+
+const crc32 = (bytes: Uint8Array): number => {
+  let crc = 0xffffffff;
+  for (const byte of bytes) crc = CRC_TABLE[(crc ^ byte) & 0xff] ^ (crc >>> 8);
+  return (crc ^ 0xffffffff) >>> 0;
+};
+
+// Rebuilds the archive entry by entry from its central directory; replaced parts are stored uncompressed
+const stripOffice = (bytes: Uint8Array): { data: Uint8Array; removed: string[] } => {
+  const view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength);
+  let eocd = -1;
+  for (let i = bytes.length - 22; i >= Math.max(0, bytes.length - 22 - 0xffff); i--) {
+    if (view.getUint32(i, true) === 0x06054b50) {
+      eocd = i;
+      break;
+    }
+  }
+  if (eocd < 0) throw malformed('Office');
+  const entryCount = view.getUint16(eocd + 10, true);
+  const directoryStart = view.getUint32(eocd + 16, true);
+  if (entryCount === 0xffff || directoryStart === 0xffffffff) throw new Error('ZIP64 Office files are not supported');
+
+  const encoder = new TextEncoder();
+  const localParts: Uint8Array[] = [];
+  const directoryParts: Uint8Array[] = [];
+  const removed: string[] = [];
+  let written = 0;
+  let cursor = directoryStart;
+
+  for (let n = 0; n < entryCount; n++) {
+    if (cursor + 46 > bytes.length || view.getUint32(cursor, true) !== 0x02014b50) throw malformed('Office');
+    const nameLength = view.getUint16(cursor + 28, true);
+    const directoryEnd = cursor + 46 + nameLength + view.getUint16(cursor + 30, true) + view.getUint16(cursor + 32, true);
+    const name = new TextDecoder().decode(bytes.subarray(cursor + 46, cursor + 46 + nameLength));
+    const localStart = view.getUint32(cursor + 42, true);
+    if (localStart + 30 > bytes.length || view.getUint32(localStart, true) !== 0x04034b50) throw malformed('Office');
+    const dataStart = localStart + 30 + view.getUint16(localStart + 26, true) + view.getUint16(localStart + 28, true);
+    const compressedSize = view.getUint32(cursor + 20, true);
+    if (dataStart + compressedSize > bytes.length) throw malformed('Office');
+
+    const entry = bytes.slice(cursor, directoryEnd);
+    const entryView = new DataView(entry.buffer);
+    let local: Uint8Array;
+    const replacement = EMPTY_OFFICE_PARTS[name];
+    if (replacement !== undefined) {
+      const content = encoder.encode(replacement);
+      const crc = crc32(content);
+      const header = bytes.slice(localStart, localStart + 30 + view.getUint16(localStart + 26, true));
+      const headerView = new DataView(header.buffer);
+      headerView.setUint16(28, 0, true); // Extra field dropped
+      // The directory entry repeats the local header fields, two bytes further in
+      for (const [fields, base] of [[headerView, 0], [entryView, 2]] as const) {
+        fields.setUint16(base + 6, fields.getUint16(base + 6, true) & ~0x08, true); // No data descriptor follows
+        fields.setUint16(base + 8, 0, true); // Stored
+        fields.setUint32(base + 14, crc, true);
+        fields.setUint32(base + 18, content.length, true);
+        fields.setUint32(base + 22, content.length, true);
+      }
+      local = concat([header, content]);
+      removed.push(OFFICE_PART_LABELS[name]);
+    } else {
+      let localEnd = dataStart + compressedSize;
+      // A data descriptor (with or without its signature) trails entries written in streaming mode
+      if (view.getUint16(localStart + 6, true) & 0x08) {
+        localEnd += localEnd + 4 <= bytes.length && view.getUint32(localEnd, true) === 0x08074b50 ? 16 : 12;
+      }
+      local = bytes.subarray(localStart, localEnd);
+    }
+
+    entryView.setUint32(42, written, true);
+    localParts.push(local);
+    directoryParts.push(entry);
+    written += local.length;
+    cursor = directoryEnd;
+  }
+
+  const directory = concat(directoryParts);
+  const end = bytes.slice(eocd, eocd + 22);
+  const endView = new DataView(end.buffer);
+  endView.setUint32(12, directory.length, true);
+  endView.setUint32(16, written, true);
+  endView.setUint16(20, 0, true); // Archive comment dropped
+  return { data: concat([...localParts, directory, end]), removed };
+};
+
+const stripperFor = (file: File): ((bytes: Uint8Array) => { data: Uint8Array; removed: string[] }) | null => {
+  const type = file.type.toLowerCase();
+  const extension = file.name.split('.').pop()?.toLowerCase();
+  if (type === 'image/jpeg' || extension === 'jpg' || extension === 'jpeg') return stripJpeg;
+  if (type === 'image/png' || extension === 'png') return stripPng;
+  if (type === 'image/webp' || extension === 'webp') return stripWebp;
+  if (type === 'application/pdf' || extension === 'pdf') return stripPdf;
+  if (OFFICE_TYPES.includes(type) || ['docx', 'xlsx', 'pptx'].includes(extension || '')) return stripOffice;
+  return null;
+};
+
+/**
+ * Returns the file without its identifying metadata. Formats this module does
+ * not know come back unchanged with nothing listed as removed. Throws when a
+ * known format cannot be parsed or its metadata cannot be removed, so the
+ * caller can refuse to send it as-is.
+ */
+export const stripMetadata = async (file: File): Promise<StrippedFile> => {
+  const strip = stripperFor(file);
+  if (!strip) return { file, removed: [] };
+
+  const { data, removed } = strip(new Uint8Array(await file.arrayBuffer()));
+  if (removed.length === 0) return { file, removed };
+  return { file: new File([data], file.name, { type: file.type }), removed };
+};
@@ -0,0 +1,43 @@
+import { describe, expect, it } from 'vitest';
+import { checkAndRecord, createSeenWindow } from './replayGuard';
+
+const NOW = 1_700_000_000_000;
+const MINUTE = 60 * 1000;
+
+describe('checkAndRecord', () => {
+  it('accepts a new envelope once and refuses it as a duplicate afterwards', () => {
+    const window = createSeenWindow();
+    expect(checkAndRecord(window, 'a', NOW, NOW)).toBe('fresh');
+    expect(checkAndRecord(window, 'a', NOW, NOW)).toBe('duplicate');
+    expect(checkAndRecord(window, 'b', NOW, NOW)).toBe('fresh');
+  });
+
+  it('refuses envelopes outside the accepted clock range', () => {
+    const window = createSeenWindow();
+    expect(checkAndRecord(window, 'old', NOW - 16 * MINUTE, NOW)).toBe('stale');
+    expect(checkAndRecord(window, 'future', NOW + 6 * MINUTE, NOW)).toBe('stale');
+    expect(checkAndRecord(window, 'nan', Number.NaN, NOW)).toBe('stale');
+    expect(checkAndRecord(window, 'recent', NOW - 14 * MINUTE, NOW)).toBe('fresh');
+    expect(checkAndRecord(window, 'skewed', NOW + 4 * MINUTE, NOW)).toBe('fresh');
+  });
+
+  it('refuses envelopes at or below the timestamp of evicted ids', () => {
+    const window = createSeenWindow();
+    for (let i = 0; i <= 1000; i++) {
+      expect(checkAndRecord(window, `id-${i}`, NOW - 1000 + i, NOW)).toBe('fresh');
+    }
+
+    // id-0 fell out of the window, so a replay of it must not count as fresh again
+    expect(window.ids.has('id-0')).toBe(false);
+    expect(checkAndRecord(window, 'id-0', NOW - 1000, NOW)).toBe('stale');
+    expect(checkAndRecord(window, 'late', NOW - 1000, NOW)).toBe('stale');
+    expect(checkAndRecord(window, 'next', NOW + 1, NOW)).toBe('fresh');
+  });
+
+  it('keeps windows independent', () => {
+    const alice = createSeenWindow();
+    const bob = createSeenWindow();
+    expect(checkAndRecord(alice, 'shared-id', NOW, NOW)).toBe('fresh');
+    expect(checkAndRecord(bob, 'shared-id', NOW, NOW)).toBe('fresh');
+  });
+});
@@ -0,0 +1,34 @@
+// --- Replay Protection ---
+//
+// Signatures prove who sent an envelope, not that it is new: a relay can hand
+// the same signed envelope over again. Each peer gets a sliding window of the
+// envelope ids seen most recently. Anything older than the window, outside the
+// accepted clock range, or already in it is refused.
+
+const WINDOW_SIZE = 1000;                // Ids remembered per peer
+const MAX_AGE_MS = 15 * 60 * 1000;       // Envelopes older than this are stale
+const MAX_CLOCK_SKEW_MS = 5 * 60 * 1000; // Tolerated drift for timestamps in the future
+
+export type ReplayVerdict = 'fresh' | 'duplicate' | 'stale';
+
+export interface SeenWindow {
+  ids: Map<string, number>; // id -> timestamp, in arrival order
+  floor: number;            // Newest timestamp evicted from the window; nothing at or below it is accepted
+}
+
+export const createSeenWindow = (): SeenWindow => ({ ids: new Map(), floor: 0 });
+
+/** Checks an authenticated envelope id/timestamp and records it when fresh. */
+export const checkAndRecord = (window: SeenWindow, id: string, timestamp: number, now = Date.now()): ReplayVerdict => {
+  if (window.ids.has(id)) return 'duplicate';
+  if (!Number.isFinite(timestamp) || timestamp < now - MAX_AGE_MS || timestamp > now + MAX_CLOCK_SKEW_MS) return 'stale';
+  if (timestamp <= window.floor) return 'stale';
+
+  window.ids.set(id, timestamp);
+  while (window.ids.size > WINDOW_SIZE) {
+    const [oldestId, oldestTimestamp] = window.ids.entries().next().value as [string, number];
+    window.ids.delete(oldestId);
+    window.floor = Math.max(window.floor, oldestTimestamp);
+  }
+  return 'fresh';
+};
@@ -0,0 +1,71 @@
+import { arrayBufferToBase64, base64ToArrayBuffer } from './encryptionService';
+import { canonicalJson } from './envelope';
+
+// --- Passphrase-Protected Rooms ---
+//
+// The passphrase is stretched with PBKDF2 (salted with the room id) and split
+// with HKDF into two unrelated values:
+//   - a verifier, sent to the nexus so it can turn away joins with a wrong passphrase;
+//   - an HMAC key that never leaves the client, used by members to prove to each
+//     other that they know the passphrase before any room keys are shared.
+// A relay that knows the verifier still cannot produce membership proofs.
+
+const PBKDF2_ITERATIONS = 600_000;
+
+export interface RoomCredentials {
+  roomId: string;
+  verifier: string;     // Base64, given to the nexus
+  memberKey: CryptoKey; // HMAC-SHA-256, for membership proofs
+}
+
+export interface MembershipClaim {
+  roomId: string;
+  prover: string;          // Username proving knowledge of the passphrase
+  verifier: string;        // Username the proof is addressed to
+  proverIdentity: string;  // Fingerprint of the prover's identity keys
+}
+
+export const deriveRoomCredentials = async (roomId: string, passphrase: string): Promise<RoomCredentials> => {
+  try {
+    const encoder = new TextEncoder();
+    const passphraseKey = await crypto.subtle.importKey('raw', encoder.encode(passphrase), 'PBKDF2', false, ['deriveBits']);
+    const stretched = await crypto.subtle.deriveBits(
+      { name: 'PBKDF2', hash: 'SHA-256', salt: encoder.encode(`benull-room:${roomId}`), iterations: PBKDF2_ITERATIONS },
+      passphraseKey,
+      256
+    );
+    const masterKey = await crypto.subtle.importKey('raw', stretched, 'HKDF', false, ['deriveBits', 'deriveKey']);
+    const hkdfParams = (info: string) => ({ name: 'HKDF', hash: 'SHA-256', salt: new Uint8Array(32), info: encoder.encode(info) });
+
+    const verifier = await crypto.subtle.deriveBits(hkdfParams('benull-room-verifier'), masterKey, 256);
+    const memberKey = await crypto.subtle.deriveKey(
+      hkdfParams('benull-room-member-auth'),
+      masterKey,
+      { name: 'HMAC', hash: 'SHA-256', length: 256 },
+      false,
+      ['sign', 'verify']
+    );
+
+    return { roomId, verifier: arrayBufferToBase64(verifier), memberKey };
+  } catch (error) {
+    console.error("Error deriving room credentials:", error);
+    throw new Error(`Room key derivation failed: ${error instanceof Error ? error.message : String(error)}`);
+  }
+};
+
+const encodeClaim = (claim: MembershipClaim): Uint8Array => {
+  return new TextEncoder().encode(canonicalJson({ ...claim, label: 'benull-room-membership' }));
+};
+
+export const createMembershipProof = async (credentials: RoomCredentials, claim: MembershipClaim): Promise<string> => {
+  const proof = await crypto.subtle.sign('HMAC', credentials.memberKey, encodeClaim(claim));
+  return arrayBufferToBase64(proof);
+};
+
+export const verifyMembershipProof = async (credentials: RoomCredentials, claim: MembershipClaim, proofB64: string): Promise<boolean> => {
+  try {
+    return await crypto.subtle.verify('HMAC', credentials.memberKey, base64ToArrayBuffer(proofB64), encodeClaim(claim));
+  } catch (error) {
+    return false;
+  }
+};
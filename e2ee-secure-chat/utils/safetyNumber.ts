@@ -0,0 +1,55 @@
+import { concatBytes } from './encryptionService';
+
+// --- Safety Numbers ---
+//
+// Both parties compute the same 60-digit number from the two public identities,
+// in the style of Signal's numeric fingerprints: each identity is hashed with
+// iterated SHA-512 into 30 digits, and the two halves are sorted so the result
+// does not depend on who computes it. Comparing it (or scanning the QR code)
+// proves no one has substituted keys in the directory or relay.
+
+const FINGERPRINT_VERSION = 0;
+const ITERATIONS = 5200;
+const QR_PREFIX = 'benull-safety:1:';
+
+const fingerprintDigits = async (identity: Uint8Array, username: string): Promise<string> => {
+  const version = new Uint8Array([0, FINGERPRINT_VERSION]);
+  let hash = concatBytes(version, identity, new TextEncoder().encode(username));
+  for (let i = 0; i < ITERATIONS; i++) {
+    hash = new Uint8Array(await crypto.subtle.digest('SHA-512', concatBytes(hash, identity)));
+  }
+
+  // Six chunks of five bytes, each reduced to five decimal digits
+  let digits = '';
+  for (let chunk = 0; chunk < 6; chunk++) {
+    let value = 0;
+    for (let i = 0; i < 5; i++) value = value * 256 + hash[chunk * 5 + i];
+    digits += (value % 100000).toString().padStart(5, '0');
+  }
+  return digits;
+};
+
+/** Returns the 60 digit safety number for two identities (order-independent). */
+export const computeSafetyNumber = async (
+  own: { identity: Uint8Array; username: string },
+  peer: { identity: Uint8Array; username: string }
+): Promise<string> => {
+  const halves = await Promise.all([
+    fingerprintDigits(own.identity, own.username),
+    fingerprintDigits(peer.identity, peer.username),
+  ]);
+  return halves.sort().join('');
+};
+
+export const formatSafetyNumber = (safetyNumber: string): string[] => {
+  return safetyNumber.match(/.{1,5}/g) || [];
+};
+
+export const toQrPayload = (safetyNumber: string): string => `${QR_PREFIX}${safetyNumber}`;
+
+/** Accepts a scanned QR payload or pasted digits (spaces allowed) and returns the bare number, or null. */
+export const parseSafetyNumberInput = (input: string): string | null => {
+  const trimmed = input.trim();
+  const digits = (trimmed.startsWith(QR_PREFIX) ? trimmed.slice(QR_PREFIX.length) : trimmed).replace(/\s+/g, '');
+  return /^\d{60}$/.test(digits) ? digits : null;
+};
@@ -0,0 +1,108 @@
+import { DEFAULT_KEY_ROTATION_INTERVAL_MS, DEFAULT_MESSAGE_EDIT_WINDOW_MS, DEFAULT_PANIC_SHORTCUT, LOCAL_STORAGE_KEY_PREFIX, PADDING_POLICY_OPTIONS } from '../constants';
+import { DEFAULT_PADDING_POLICY, PaddingPolicy } from './encryptionService';
+
+const PANIC_SHORTCUT_KEY = `${LOCAL_STORAGE_KEY_PREFIX}panicShortcut`;
+const EPHEMERAL_KEYS_KEY = `${LOCAL_STORAGE_KEY_PREFIX}ephemeralKeys`;
+const KEY_ROTATION_INTERVAL_KEY = `${LOCAL_STORAGE_KEY_PREFIX}keyRotationInterval`;
+const LAST_KEY_ROTATION_KEY = `${LOCAL_STORAGE_KEY_PREFIX}lastKeyRotation`;
+const PADDING_POLICY_KEY = `${LOCAL_STORAGE_KEY_PREFIX}paddingPolicy`;
+const READ_RECEIPTS_KEY = `${LOCAL_STORAGE_KEY_PREFIX}readReceipts`;
+const MESSAGE_EDIT_WINDOW_KEY = `${LOCAL_STORAGE_KEY_PREFIX}messageEditWindow`;
+const STRIP_METADATA_KEY = `${LOCAL_STORAGE_KEY_PREFIX}stripMetadata`;
+
+const MODIFIER_CODES = ['ControlLeft', 'ControlRight', 'AltLeft', 'AltRight', 'ShiftLeft', 'ShiftRight', 'MetaLeft', 'MetaRight'];
+
+/**
+ * Formats a key press as "Ctrl+Shift+X". Returns null for presses without a
+ * Ctrl/Alt/Meta modifier, so plain typing can never trigger a shortcut.
+ */
+export const shortcutFromEvent = (e: Pick<KeyboardEvent, 'ctrlKey' | 'altKey' | 'shiftKey' | 'metaKey' | 'code'>): string | null => {
+    if (!e.ctrlKey && !e.altKey && !e.metaKey) return null;
+    if (!e.code || MODIFIER_CODES.includes(e.code)) return null;
+
+    const parts: string[] = [];
+    if (e.ctrlKey) parts.push('Ctrl');
+    if (e.altKey) parts.push('Alt');
+    if (e.shiftKey) parts.push('Shift');
+    if (e.metaKey) parts.push('Meta');
+    parts.push(e.code.replace(/^Key|^Digit/, '')); // Physical key, independent of the keyboard layout
+    return parts.join('+');
+};
+
+export const getPanicShortcut = (): string => {
+    return localStorage.getItem(PANIC_SHORTCUT_KEY) || DEFAULT_PANIC_SHORTCUT;
+};
+
+export const setPanicShortcut = (shortcut: string): void => {
+    localStorage.setItem(PANIC_SHORTCUT_KEY, shortcut);
+};
+
+export const isEphemeralKeysEnabled = (): boolean => {
+    return localStorage.getItem(EPHEMERAL_KEYS_KEY) === 'true';
+};
+
+export const setEphemeralKeysEnabled = (enabled: boolean): void => {
+    if (enabled) {
+        localStorage.setItem(EPHEMERAL_KEYS_KEY, 'true');
+    } else {
+        localStorage.removeItem(EPHEMERAL_KEYS_KEY);
+    }
+};
+
+export const getKeyRotationInterval = (): number => {
+    const stored = localStorage.getItem(KEY_ROTATION_INTERVAL_KEY);
+    return stored === null ? DEFAULT_KEY_ROTATION_INTERVAL_MS : Number(stored) || 0;
+};
+
+export const setKeyRotationInterval = (intervalMs: number): void => {
+    localStorage.setItem(KEY_ROTATION_INTERVAL_KEY, String(intervalMs));
+};
+
+/** When the identity keys were last replaced; the first call starts the clock. */
+export const getLastKeyRotation = (): number => {
+    const stored = Number(localStorage.getItem(LAST_KEY_ROTATION_KEY));
+    if (stored > 0) return stored;
+    const now = Date.now();
+    setLastKeyRotation(now);
+    return now;
+};
+
+export const setLastKeyRotation = (timestamp: number): void => {
+    localStorage.setItem(LAST_KEY_ROTATION_KEY, String(timestamp));
+};
+
+export const getPaddingPolicy = (): PaddingPolicy => {
+    const stored = localStorage.getItem(PADDING_POLICY_KEY);
+    return PADDING_POLICY_OPTIONS.find(option => option.value === stored)?.value ?? DEFAULT_PADDING_POLICY;
+};
+
+export const setPaddingPolicy = (policy: PaddingPolicy): void => {
+    localStorage.setItem(PADDING_POLICY_KEY, policy);
+};
+
+/** Read receipts are on unless turned off; delivery receipts are always sent. */
+export const areReadReceiptsEnabled = (): boolean => {
+    return localStorage.getItem(READ_RECEIPTS_KEY) !== 'false';
+};
+
+export const setReadReceiptsEnabled = (enabled: boolean): void => {
+    localStorage.setItem(READ_RECEIPTS_KEY, String(enabled));
+};
+
+/** How long after sending a message its sender may still edit or delete it, as enforced by this client. */
+export const getMessageEditWindow = (): number => {
+    return Number(localStorage.getItem(MESSAGE_EDIT_WINDOW_KEY)) || DEFAULT_MESSAGE_EDIT_WINDOW_MS;
+};
+
+export const setMessageEditWindow = (windowMs: number): void => {
+    localStorage.setItem(MESSAGE_EDIT_WINDOW_KEY, String(windowMs));
+};
+
+/** Metadata is removed from outgoing files unless turned off; a single send can still keep it. */
+export const isMetadataStrippingEnabled = (): boolean => {
+    return localStorage.getItem(STRIP_METADATA_KEY) !== 'false';
+};
+
+export const setMetadataStrippingEnabled = (enabled: boolean): void => {
+    localStorage.setItem(STRIP_METADATA_KEY, String(enabled));
+};
@@ -0,0 +1,70 @@
+import { describe, expect, it } from 'vitest';
+import { SenderKeyState, createSenderKey, fromDistribution, senderKeyDecrypt, senderKeyEncrypt, toDistribution } from './senderKeys';
+
+// Encrypts the texts in order on the sender's chain, returning the messages and the advanced state
+const encryptAll = async (state: SenderKeyState, texts: string[]) => {
+  const messages = [];
+  for (const text of texts) {
+    const message = await senderKeyEncrypt(state, text);
+    state = message.state;
+    messages.push(message);
+  }
+  return { state, messages };
+};
+
+describe('senderKeyEncrypt / senderKeyDecrypt', () => {
+  it('round-trips a chain for a member who received the distribution', async () => {
+    const sender = createSenderKey();
+    let receiver = fromDistribution(toDistribution(sender));
+    const { messages } = await encryptAll(sender, ['one', 'two', 'three']);
+
+    for (const [index, message] of messages.entries()) {
+      expect(message.iteration).toBe(index);
+      const received = await senderKeyDecrypt(receiver, message.iteration, message.encryptedDataB64, message.ivB64);
+      expect(received?.plaintext).toBe(['one', 'two', 'three'][index]);
+      receiver = received!.state;
+    }
+    expect(receiver.iteration).toBe(3);
+  });
+
+  it('decrypts skipped iterations out of order', async () => {
+    const sender = createSenderKey();
+    const receiver = fromDistribution(toDistribution(sender));
+    const { messages } = await encryptAll(sender, ['one', 'two', 'three']);
+
+    const third = await senderKeyDecrypt(receiver, 2, messages[2].encryptedDataB64, messages[2].ivB64);
+    expect(third?.plaintext).toBe('three');
+    expect(third!.state.skippedKeys.size).toBe(2);
+
+    const first = await senderKeyDecrypt(third!.state, 0, messages[0].encryptedDataB64, messages[0].ivB64);
+    expect(first?.plaintext).toBe('one');
+    expect(first!.state.skippedKeys.has(0)).toBe(false);
+  });
+
+  it('lets a late joiner read from the iteration it was given, but not before', async () => {
+    const { state: sender, messages: earlier } = await encryptAll(createSenderKey(), ['before you joined']);
+    const receiver = fromDistribution(toDistribution(sender));
+    const { messages: later } = await encryptAll(sender, ['welcome']);
+
+    expect(await senderKeyDecrypt(receiver, earlier[0].iteration, earlier[0].encryptedDataB64, earlier[0].ivB64)).toBeNull();
+    expect((await senderKeyDecrypt(receiver, later[0].iteration, later[0].encryptedDataB64, later[0].ivB64))?.plaintext).toBe('welcome');
+  });
+
+  it('refuses replays and iterations more than MAX_SKIP ahead', async () => {
+    const sender = createSenderKey();
+    const receiver = fromDistribution(toDistribution(sender));
+    const { messages: [message] } = await encryptAll(sender, ['only once']);
+
+    const received = await senderKeyDecrypt(receiver, 0, message.encryptedDataB64, message.ivB64);
+    expect(received?.plaintext).toBe('only once');
+    expect(await senderKeyDecrypt(received!.state, 0, message.encryptedDataB64, message.ivB64)).toBeNull();
+    expect(await senderKeyDecrypt(receiver, 501, message.encryptedDataB64, message.ivB64)).toBeNull();
+  });
+
+  it('refuses messages under a different sender key', async () => {
+    const { messages: [message] } = await encryptAll(createSenderKey(), ['not for you']);
+    const stranger = fromDistribution(toDistribution(createSenderKey()));
+
+    expect(await senderKeyDecrypt(stranger, 0, message.encryptedDataB64, message.ivB64)).toBeNull();
+  });
+});
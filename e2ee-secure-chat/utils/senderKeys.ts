@@ -0,0 +1,142 @@
+import { SenderKeyDistribution } from '../types';
+import {
+  arrayBufferToBase64,
+  base64ToArrayBuffer,
+  base64ToUint8Array,
+  concatBytes,
+  decodePaddedText,
+  DEFAULT_PADDING_POLICY,
+  encodePaddedText,
+  kdfChainKey,
+  PaddingPolicy,
+  uint8ArrayToBase64,
+} from './encryptionService';
+import { aeadParams, generateIv } from './cipherSuites';
+
+// --- Sender Keys (group encryption for rooms) ---
+//
+// Every member owns a sender key: a random chain key that is handed to each room
+// member over the pairwise channel. A room message is encrypted once under the
+// next message key of the sender's chain, so the relay forwards one ciphertext
+// to the whole room instead of one per recipient. A sender key is replaced (new
+// keyId) whenever a member leaves, so departed members cannot read on.
+
+const MAX_SKIP = 500; // Max message keys derived ahead of the current iteration
+const MAX_CACHED_SKIPPED_KEYS = 1000;
+
+export interface SenderKeyState {
+  keyId: string;
+  chainKey: Uint8Array;
+  iteration: number; // Iteration of the next message key in the chain
+  skippedKeys: Map<number, Uint8Array>; // Receiver side: keys for out-of-order messages
+}
+
+const encodeAad = (keyId: string, iteration: number, associatedData: Uint8Array): Uint8Array => {
+  return concatBytes(new TextEncoder().encode(`${keyId}:${iteration}|`), associatedData);
+};
+
+const importMessageKey = (messageKey: Uint8Array, usage: KeyUsage): Promise<CryptoKey> => {
+  return crypto.subtle.importKey('raw', messageKey, { name: 'AES-GCM' }, false, [usage]);
+};
+
+export const createSenderKey = (): SenderKeyState => {
+  const keyIdBytes = crypto.getRandomValues(new Uint8Array(8));
+  return {
+    keyId: Array.from(keyIdBytes).map(b => b.toString(16).padStart(2, '0')).join(''),
+    chainKey: crypto.getRandomValues(new Uint8Array(32)),
+    iteration: 0,
+    skippedKeys: new Map(),
+  };
+};
+
+export const toDistribution = (state: SenderKeyState): SenderKeyDistribution => ({
+  keyId: state.keyId,
+  chainKeyB64: uint8ArrayToBase64(state.chainKey),
+  iteration: state.iteration,
+});
+
+export const fromDistribution = (distribution: SenderKeyDistribution): SenderKeyState => ({
+  keyId: distribution.keyId,
+  chainKey: base64ToUint8Array(distribution.chainKeyB64),
+  iteration: distribution.iteration,
+  skippedKeys: new Map(),
+});
+
+export const senderKeyEncrypt = async (
+  state: SenderKeyState,
+  plaintext: string,
+  associatedData: Uint8Array = new Uint8Array(0), // Envelope fields bound to the ciphertext
+  padding: PaddingPolicy = DEFAULT_PADDING_POLICY,
+  suite?: string // Negotiated cipher suite; the legacy suite when omitted
+): Promise<{ state: SenderKeyState; iteration: number; encryptedDataB64: string; ivB64: string }> => {
+  const [chainKey, messageKey] = await kdfChainKey(state.chainKey);
+  const iteration = state.iteration;
+
+  const iv = generateIv(suite);
+  const ciphertext = await crypto.subtle.encrypt(
+    aeadParams(suite, iv, encodeAad(state.keyId, iteration, associatedData)),
+    await importMessageKey(messageKey, 'encrypt'),
+    encodePaddedText(plaintext, padding)
+  );
+  messageKey.fill(0);
+
+  return {
+    state: { ...state, chainKey, iteration: iteration + 1 },
+    iteration,
+    encryptedDataB64: arrayBufferToBase64(ciphertext),
+    ivB64: uint8ArrayToBase64(iv),
+  };
+};
+
+/**
+ * Decrypts a room message from a peer's sender key. Returns the advanced state
+ * on success and null on failure, leaving the passed state untouched.
+ */
+export const senderKeyDecrypt = async (
+  state: SenderKeyState,
+  iteration: number,
+  encryptedDataB64: string,
+  ivB64: string,
+  associatedData: Uint8Array = new Uint8Array(0),
+  padded = true,
+  suite?: string
+): Promise<{ state: SenderKeyState; plaintext: string } | null> => {
+  try {
+    const next: SenderKeyState = { ...state, skippedKeys: new Map(state.skippedKeys) };
+
+    let messageKey = next.skippedKeys.get(iteration);
+    if (messageKey) {
+      next.skippedKeys.delete(iteration);
+    } else {
+      if (iteration < next.iteration) return null; // Already consumed (replay)
+      if (iteration - next.iteration > MAX_SKIP) return null;
+
+      while (next.iteration < iteration) {
+        const [chainKey, skippedKey] = await kdfChainKey(next.chainKey);
+        next.skippedKeys.set(next.iteration, skippedKey);
+        next.chainKey = chainKey;
+        next.iteration += 1;
+      }
+      while (next.skippedKeys.size > MAX_CACHED_SKIPPED_KEYS) {
+        next.skippedKeys.delete(next.skippedKeys.keys().next().value as number);
+      }
+
+      const [chainKey, derivedKey] = await kdfChainKey(next.chainKey);
+      next.chainKey = chainKey;
+      next.iteration += 1;
+      messageKey = derivedKey;
+    }
+
+    const plaintext = await crypto.subtle.decrypt(
+      aeadParams(suite, base64ToUint8Array(ivB64), encodeAad(state.keyId, iteration, associatedData)),
+      await importMessageKey(messageKey, 'decrypt'),
+      base64ToArrayBuffer(encryptedDataB64)
+    );
+    messageKey.fill(0);
+
+    return { state: next, plaintext: decodePaddedText(new Uint8Array(plaintext), padded) };
+  } catch (error) {
+    console.error("Sender key decryption failed:", error);
+    return null;
+  }
+};
@@ -1,5 +1,5 @@
 
-const STORAGE_KEY = 'e2ee_chat_identity';
+const STORAGE_KEY = 'chat_identity';
 
 export interface UserIdentity {
     username: string;
@@ -28,7 +28,7 @@ export const generateRandomIdentity = (): UserIdentity => {
 
 export const getStoredIdentity = (): UserIdentity | null => {
     // Use sessionStorage so each tab has a unique identity
-    const stored = sessionStorage.getItem('chat_identity');
+    const stored = sessionStorage.getItem(STORAGE_KEY);
     if (stored) {
         return JSON.parse(stored);
     }
@@ -36,7 +36,7 @@ export const getStoredIdentity = (): UserIdentity | null => {
 };
 
 export const storeIdentity = (identity: UserIdentity): void => {
-    sessionStorage.setItem('chat_identity', JSON.stringify(identity));
+    sessionStorage.setItem(STORAGE_KEY, JSON.stringify(identity));
 };
 
 export const clearIdentity = () => {
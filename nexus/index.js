@@ -34,6 +34,7 @@ const LATEST_VERSION = '1.0.1';        // Current latest version (Soft Update)
 // Store room state: roomId -> Set<UserObject>
 const rooms = new Map();
 const socketToRoom = new Map();
+const roomVerifiers = new Map(); // roomId -> passphrase verifier (protected rooms only; never the passphrase itself)
 const allUsers = new Map(); // username -> { socketId, publicKey, username }
 
 // --- Server Stats ---
@@ -139,6 +140,12 @@ const isValidUsername = (username) => {
         /^[a-zA-Z0-9_#\-\s]+$/.test(username);
 };
 
+// Advertised cipher suite ids are opaque to the relay; only their shape is bounded
+const sanitizeSuites = (suites) => {
+    if (!Array.isArray(suites)) return undefined;
+    return suites.filter(s => typeof s === 'string' && s.length > 0 && s.length <= 64).slice(0, 16);
+};
+
 const isValidRoomId = (roomId) => {
     return typeof roomId === 'string' &&
         roomId.length >= 1 &&
@@ -219,7 +226,7 @@ io.on('connection', (socket) => {
         next();
     });
 
-    socket.on('register-user', ({ username, publicKey }) => {
+    socket.on('register-user', ({ username, publicKey, signingKey, suites }) => {
         if (!isValidUsername(username)) {
             socket.emit('error', 'Invalid username format.');
             return;
@@ -246,15 +253,40 @@ io.on('connection', (socket) => {
             }
         }
 
-        const user = { socketId: socket.id, username, publicKey, ip: clientIp };
+        const user = { socketId: socket.id, username, publicKey, signingKey, suites: sanitizeSuites(suites), ip: clientIp };
         allUsers.set(username, user);
-        // User registered
+
+        // Re-registration after a key rotation: keep the room entry in step for room-users lists
+        const roomId = socketToRoom.get(socket.id);
+        const roomUser = roomId && rooms.has(roomId) ? rooms.get(roomId).get(socket.id) : null;
+        if (roomUser) {
+            roomUser.publicKey = publicKey;
+            roomUser.signingKey = signingKey;
+            roomUser.suites = user.suites;
+        }
     });
 
-    socket.on('join-room', ({ roomId, username, publicKey }) => {
+    socket.on('join-room', ({ roomId, username, publicKey, signingKey, suites, verifier }) => {
         if (!isValidRoomId(roomId) || !isValidUsername(username)) {
             return;
         }
+        if (verifier !== undefined && verifier !== null && (typeof verifier !== 'string' || verifier.length > 128)) {
+            return;
+        }
+
+        // The first member of a room decides whether it is protected; later joins must match
+        const occupied = rooms.has(roomId) && rooms.get(roomId).size > 0;
+        if (occupied) {
+            const expected = roomVerifiers.get(roomId) || null;
+            if ((verifier || null) !== expected) {
+                socket.emit('room-join-error', { roomId, reason: expected ? 'passphrase' : 'not-protected' });
+                return;
+            }
+        } else if (verifier) {
+            roomVerifiers.set(roomId, verifier);
+        } else {
+            roomVerifiers.delete(roomId);
+        }
 
         // Double check uniqueness enforcement
         if (allUsers.has(username) && allUsers.get(username).socketId !== socket.id) {
@@ -282,7 +314,7 @@ io.on('connection', (socket) => {
         const roomUsers = rooms.get(roomId);
 
         // Add user to room state
-        const user = { socketId: socket.id, username, publicKey, ip: clientIp };
+        const user = { socketId: socket.id, username, publicKey, signingKey, suites: sanitizeSuites(suites), ip: clientIp };
         roomUsers.set(socket.id, user);
         allUsers.set(username, user); // Ensure global registry is updated
 
@@ -315,6 +347,7 @@ io.on('connection', (socket) => {
                     setTimeout(() => {
                         if (rooms.has(roomId) && rooms.get(roomId).size === 0) {
                             rooms.delete(roomId);
+                            roomVerifiers.delete(roomId);
                         }
                     }, 10000);
                 }
@@ -334,7 +367,8 @@ io.on('connection', (socket) => {
     });
 
     // Direct Encrypted Message Relay
-    socket.on('send-message', ({ targetSocketId, targetUsername, payload, senderUsername }) => {
+    // The optional ack tells the sender whether the message was handed to a connected client
+    socket.on('send-message', ({ targetSocketId, targetUsername, payload, senderUsername }, ack) => {
         let finalTargetId = targetSocketId;
 
         if (targetUsername) {
@@ -351,6 +385,69 @@ io.on('connection', (socket) => {
                 payload
             });
         }
+        if (typeof ack === 'function') {
+            ack({ relayed: !!finalTargetId && io.sockets.sockets.has(finalTargetId) });
+        }
+    });
+
+    // Room Message Relay: one sender-key ciphertext fanned out to the whole room
+    socket.on('send-room-message', ({ payload, senderUsername }, ack) => {
+        const roomId = socketToRoom.get(socket.id);
+        if (!roomId || !payload) {
+            if (typeof ack === 'function') ack({ relayed: false });
+            return;
+        }
+
+        socket.to(roomId).emit('encrypted-message', {
+            senderSocketId: socket.id,
+            senderUsername,
+            payload
+        });
+        if (typeof ack === 'function') ack({ relayed: true });
+    });
+
+    // Sender Key Distribution: a sealed copy per member in a single event (keeps large rooms under the rate limit)
+    socket.on('distribute-sender-key', ({ distributions, senderUsername }) => {
+        const roomId = socketToRoom.get(socket.id);
+        const roomUsers = roomId ? rooms.get(roomId) : null;
+        if (!roomUsers || !Array.isArray(distributions)) return;
+
+        distributions.forEach(({ targetSocketId, payload }) => {
+            // Only deliver to members of the sender's own room
+            if (!roomUsers.has(targetSocketId) || !payload) return;
+            io.to(targetSocketId).emit('encrypted-message', {
+                senderSocketId: socket.id,
+                senderUsername,
+                payload
+            });
+        });
+    });
+
+    // Room Receipts: receipts sealed to the members whose messages they acknowledge, batched into one event
+    socket.on('room-receipts', ({ receipts, senderUsername }) => {
+        const roomId = socketToRoom.get(socket.id);
+        const roomUsers = roomId ? rooms.get(roomId) : null;
+        if (!roomUsers || !Array.isArray(receipts)) return;
+
+        receipts.forEach(({ targetSocketId, payload }) => {
+            if (!roomUsers.has(targetSocketId) || !payload) return;
+            io.to(targetSocketId).emit('encrypted-message', {
+                senderSocketId: socket.id,
+                senderUsername,
+                payload
+            });
+        });
+    });
+
+    // Room Membership Proofs: passphrase proofs between members of the same room
+    socket.on('room-auth', ({ targetSocketId, payload }) => {
+        const roomId = socketToRoom.get(socket.id);
+        if (!roomId || !payload || socketToRoom.get(targetSocketId) !== roomId) return;
+
+        io.to(targetSocketId).emit('room-auth', {
+            senderSocketId: socket.id,
+            payload
+        });
     });
 
     // Unified File Offer Handler
@@ -373,12 +470,16 @@ io.on('connection', (socket) => {
         });
     });
 
-    socket.on('direct-chat-request', ({ targetUsername, senderUsername }) => {
+    socket.on('direct-chat-request', ({ targetUsername, senderUsername, handshake, resync }) => {
         const targetUser = allUsers.get(targetUsername);
         if (targetUser) {
+            // handshake carries only public keys for the Double Ratchet setup, signed by the sender
+            // resync: restarts the session of an existing chat after one side lost its state
             io.to(targetUser.socketId).emit('direct-chat-request', {
                 senderSocketId: socket.id,
-                senderUsername
+                senderUsername,
+                handshake,
+                resync: resync === true
             });
         }
     });
@@ -398,6 +499,7 @@ io.on('connection', (socket) => {
             return;
         }
         io.to(targetSocketId).emit('file-chunk', {
+            senderSocketId: socket.id,
             transferId,
             chunkId,
             data
@@ -490,6 +592,7 @@ io.on('connection', (socket) => {
                     setTimeout(() => {
                         if (rooms.has(roomId) && rooms.get(roomId).size === 0) {
                             rooms.delete(roomId);
+                            roomVerifiers.delete(roomId);
                         }
                     }, 10000);
                 }